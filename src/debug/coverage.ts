@@ -0,0 +1,106 @@
+import * as fs from "fs";
+import * as path from "path";
+import { LineCoverage } from "../shared/debug/interfaces";
+import { Logger } from "../shared/interfaces";
+import { DartDebugSession } from "./dart_debug_impl";
+import { SourceReportKind, VMScriptList, VMSourceReport } from "./dart_debug_protocol";
+import { ThreadInfo } from "./threads";
+import { getLinesForTokenPositions } from "./utils";
+
+/// Collects line coverage from isolates (using `Coverage` source reports) for scripts in the
+/// users own code, merging the results from all isolates that are collected.
+///
+/// Source reports only say whether each line has been executed (not how many times), so lines
+/// are recorded with a count of 1 if they were executed and 0 if not.
+export class CoverageCollector {
+	// Coverage for each file (keyed by file path) from each isolate (keyed by isolate ID). Source
+	// reports are cumulative for the life of the isolate, so each collection replaces the previous
+	// one for the same isolate.
+	private readonly isolateCoverage: { [isolateId: string]: { [filePath: string]: LineCoverage } } = {};
+
+	constructor(
+		private readonly logger: Logger,
+		private readonly debugSession: DartDebugSession,
+		private readonly uriToFilePath: (uri: string) => string | undefined,
+	) { }
+
+	public get lineCoverage(): { [filePath: string]: LineCoverage } {
+		const merged: { [filePath: string]: LineCoverage } = {};
+		for (const coverage of Object.values(this.isolateCoverage)) {
+			for (const filePath of Object.keys(coverage)) {
+				const lines = merged[filePath] = merged[filePath] || {};
+				for (const line of Object.keys(coverage[filePath]).map((l) => parseInt(l, 10)))
+					lines[line] = Math.max(lines[line] || 0, coverage[filePath][line]);
+			}
+		}
+		return merged;
+	}
+
+	public async collect(thread: ThreadInfo): Promise<void> {
+		const vmService = this.debugSession.vmService;
+		if (!vmService)
+			return;
+
+		const scripts = ((await vmService.getScripts(thread.ref.id)).result as VMScriptList).scripts
+			.filter((script) => this.isUserScript(script.uri));
+
+		const coverage: { [filePath: string]: LineCoverage } = {};
+		await Promise.all(scripts.map(async (scriptRef) => {
+			// Skip scripts that aren't on disk, such as generated test entrypoints.
+			const filePath = this.uriToFilePath(scriptRef.uri);
+			if (!filePath || !fs.existsSync(filePath))
+				return;
+
+			try {
+				const [script, result] = await Promise.all([
+					thread.getScript(scriptRef),
+					vmService.getSourceReport(thread.ref, [SourceReportKind.Coverage], scriptRef, true),
+				]);
+				const report = result.result as VMSourceReport;
+
+				const linesForTokenPos = getLinesForTokenPositions(script);
+
+				const lines = coverage[filePath] = coverage[filePath] || {};
+				for (const range of report.ranges) {
+					for (const tokenPos of range.coverage?.misses || []) {
+						const line = linesForTokenPos.get(tokenPos)?.line;
+						if (line !== undefined && lines[line] === undefined)
+							lines[line] = 0;
+					}
+					for (const tokenPos of range.coverage?.hits || []) {
+						const line = linesForTokenPos.get(tokenPos)?.line;
+						if (line !== undefined)
+							lines[line] = 1;
+					}
+				}
+			} catch (e) {
+				this.logger.warn(`Failed to collect coverage for ${scriptRef.uri}: ${e}`);
+			}
+		}));
+		this.isolateCoverage[thread.ref.id] = coverage;
+	}
+
+	public writeLcov(file: string) {
+		const coverage = this.lineCoverage;
+		const lcov: string[] = [];
+		for (const filePath of Object.keys(coverage).sort()) {
+			const lines = coverage[filePath];
+			const lineNumbers = Object.keys(lines).map((l) => parseInt(l, 10)).sort((a, b) => a - b);
+			lcov.push(`SF:${filePath}`);
+			for (const line of lineNumbers)
+				lcov.push(`DA:${line},${lines[line]}`);
+			lcov.push(`LF:${lineNumbers.length}`);
+			lcov.push(`LH:${lineNumbers.filter((line) => lines[line] > 0).length}`);
+			lcov.push("end_of_record");
+		}
+
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		fs.writeFileSync(file, lcov.join("\n") + "\n");
+	}
+
+	private isUserScript(uri: string) {
+		return !this.debugSession.isSdkLibrary(uri)
+			&& !this.debugSession.isExternalLibrary(uri)
+			&& (uri.startsWith("file:") || uri.startsWith("package:"));
+	}
+}
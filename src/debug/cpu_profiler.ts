@@ -0,0 +1,131 @@
+import * as fs from "fs";
+import { CpuProfile, LineTicks, ProfiledFunction } from "../shared/debug/interfaces";
+import { Logger } from "../shared/interfaces";
+import { DartDebugSession } from "./dart_debug_impl";
+import { SourceReportKind, VMClassRef, VMCpuSamples, VMFunc, VMFuncRef, VMProfileFunction, VMScriptRef, VMSourceLocation, VMSourceReport } from "./dart_debug_protocol";
+import { ThreadInfo } from "./threads";
+import { getLinesForTokenPositions } from "./utils";
+
+// The VM takes a 64-bit int for the time extent, so this is used to request all samples.
+const allSamplesExtentMicros = Number.MAX_SAFE_INTEGER;
+
+/// Captures CPU samples for an isolate between a call to start and stop using the VMs sampling
+/// profiler, resolving the sampled functions to source locations.
+export class CpuProfiler {
+	constructor(
+		private readonly logger: Logger,
+		private readonly debugSession: DartDebugSession,
+		private readonly uriToFilePath: (uri: string) => string | undefined,
+	) { }
+
+	public async start(thread: ThreadInfo): Promise<void> {
+		if (!this.debugSession.vmService)
+			throw new Error("VM service connection is not available");
+		// The VM is always sampling, so we just need to throw away anything collected so far.
+		await this.debugSession.vmService.clearCpuSamples(thread.ref.id);
+	}
+
+	public async stop(thread: ThreadInfo): Promise<CpuProfile> {
+		if (!this.debugSession.vmService)
+			throw new Error("VM service connection is not available");
+
+		const result = await this.debugSession.vmService.getCpuSamples(thread.ref.id, 0, allSamplesExtentMicros);
+		const cpuSamples = result.result as VMCpuSamples;
+		// Scripts containing profiled functions, keyed by file path, for collecting per-line samples.
+		const scripts = new Map<string, VMScriptRef>();
+		const functions = await Promise.all(cpuSamples.functions.map((f) => this.convertFunction(thread, f, scripts)));
+		const lineTicks = await this.getLineTicks(thread, scripts);
+
+		return {
+			functions,
+			isolateId: thread.ref.id,
+			lineTicks,
+			samplePeriod: cpuSamples.samplePeriod,
+			samples: cpuSamples.samples.map((s) => s.stack),
+		};
+	}
+
+	private async convertFunction(thread: ThreadInfo, profileFunction: VMProfileFunction, scripts: Map<string, VMScriptRef>): Promise<ProfiledFunction> {
+		const func = profileFunction.function;
+		const profiledFunction: ProfiledFunction = {
+			name: func.type === "NativeFunction" ? func.name : this.getQualifiedName(func as VMFuncRef),
+			selfTicks: profileFunction.exclusiveTicks,
+			totalTicks: profileFunction.inclusiveTicks,
+		};
+
+		// Only functions that have ticks in files that exist on disk can be navigated to.
+		const filePath = func.type !== "NativeFunction" && profileFunction.resolvedUrl ? this.uriToFilePath(profileFunction.resolvedUrl) : undefined;
+		if (!filePath || !fs.existsSync(filePath))
+			return profiledFunction;
+
+		try {
+			const location = await this.getLocation(thread, func as VMFuncRef);
+			if (location) {
+				const script = await thread.getScript(location.script);
+				const position = getLinesForTokenPositions(script).get(location.tokenPos);
+				scripts.set(filePath, location.script);
+				if (position) {
+					profiledFunction.filePath = filePath;
+					profiledFunction.line = position.line;
+					profiledFunction.column = position.column;
+				}
+			}
+		} catch (e) {
+			this.logger.warn(`Failed to get location for ${profiledFunction.name}: ${e}`);
+		}
+
+		return profiledFunction;
+	}
+
+	/// Gets the number of samples for each line of the given scripts using `_Profile` source reports.
+	private async getLineTicks(thread: ThreadInfo, scripts: Map<string, VMScriptRef>): Promise<{ [filePath: string]: LineTicks }> {
+		const vmService = this.debugSession.vmService!;
+		const lineTicks: { [filePath: string]: LineTicks } = {};
+		await Promise.all([...scripts].map(async ([filePath, scriptRef]) => {
+			try {
+				const [script, result] = await Promise.all([
+					thread.getScript(scriptRef),
+					vmService.getSourceReport(thread.ref, [SourceReportKind.Profile], scriptRef),
+				]);
+				const report = result.result as VMSourceReport;
+
+				const linesForTokenPos = getLinesForTokenPositions(script);
+
+				const lines: LineTicks = lineTicks[filePath] = {};
+				for (const range of report.ranges) {
+					const profile = range.profile;
+					if (!profile)
+						continue;
+					profile.positions.forEach((tokenPos, i) => {
+						const line = typeof tokenPos === "number" ? linesForTokenPos.get(tokenPos)?.line : undefined;
+						if (line === undefined)
+							return;
+						const ticks = lines[line] = lines[line] || { selfTicks: 0, totalTicks: 0 };
+						ticks.selfTicks += profile.exclusiveTicks[i];
+						ticks.totalTicks += profile.inclusiveTicks[i];
+					});
+				}
+			} catch (e) {
+				this.logger.warn(`Failed to get line samples for ${scriptRef.uri}: ${e}`);
+			}
+		}));
+		return lineTicks;
+	}
+
+	private async getLocation(thread: ThreadInfo, func: VMFuncRef): Promise<VMSourceLocation | undefined> {
+		// Newer VMs include the location on the ref, otherwise we need to fetch the full function.
+		if (func.location)
+			return func.location;
+		const result = await this.debugSession.vmService!.getObject(thread.ref.id, func.id);
+		return (result.result as VMFunc).location;
+	}
+
+	private getQualifiedName(func: VMFuncRef): string {
+		const owner = func.owner;
+		if (owner?.type === "@Class")
+			return `${(owner as VMClassRef).name}.${func.name}`;
+		else if (owner?.type === "@Function")
+			return `${this.getQualifiedName(owner as VMFuncRef)}.${func.name}`;
+		return func.name;
+	}
+}
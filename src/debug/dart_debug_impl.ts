@@ -2,12 +2,12 @@
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
-import { DebugSession, Event, InitializedEvent, OutputEvent, Scope, Source, StackFrame, StoppedEvent, TerminatedEvent } from "vscode-debugadapter";
+import { CapabilitiesEvent, DebugSession, Event, InitializedEvent, OutputEvent, Scope, Source, StackFrame, StoppedEvent, TerminatedEvent } from "vscode-debugadapter";
 import { DebugProtocol } from "vscode-debugprotocol";
 import { DartCapabilities } from "../shared/capabilities/dart";
 import { VmServiceCapabilities } from "../shared/capabilities/vm_service";
 import { dartVMPath, debugLaunchProgressId, debugTerminatingProgressId, pleaseReportBug, vmServiceListeningBannerPattern } from "../shared/constants";
-import { DartLaunchArgs, FileLocation } from "../shared/debug/interfaces";
+import { AllocationProfile, ClassInstances, DartLaunchArgs, FileLocation } from "../shared/debug/interfaces";
 import { LogCategory, LogSeverity } from "../shared/enums";
 import { LogMessage, SpawnedProcess } from "../shared/interfaces";
 import { safeSpawn } from "../shared/processes";
@@ -17,21 +17,32 @@ import { sortBy } from "../shared/utils/array";
 import { applyColor, faint } from "../shared/utils/colors";
 import { getRandomInt, getSdkVersion } from "../shared/utils/fs";
 import { mayContainStackFrame, parseStackFrame } from "../shared/utils/stack_trace";
-import { DebuggerResult, Version, VM, VMClass, VMClassRef, VMErrorRef, VMEvent, VMFrame, VMInstance, VMInstanceRef, VMIsolate, VMIsolateRef, VMMapEntry, VMObj, VMScript, VMScriptRef, VMSentinel, VmServiceConnection, VMStack, VMTypeRef, VMWriteEvent } from "./dart_debug_protocol";
+import { CoverageCollector } from "./coverage";
+import { CpuProfiler } from "./cpu_profiler";
+import { DataBreakpointManager, DataBreakpointTarget } from "./data_breakpoints";
+import { DebuggerResult, Version, VM, VMAllocationProfile, VMClass, VMClassRef, VMErrorRef, VMEvent, VMField, VMFieldRef, VMFrame, VMFuncRef, VMInstance, VMInstanceRef, VMInstanceSet, VMIsolate, VMIsolateRef, VMLibrary, VMLibraryRef, VMMapEntry, VMObj, VMScript, VMScriptRef, VMSentinel, VmServiceConnection, VMStack, VMTypeRef, VMWriteEvent } from "./dart_debug_protocol";
 import { DebugAdapterLogger } from "./logging";
-import { ThreadInfo, ThreadManager } from "./threads";
-import { formatPathForVm } from "./utils";
+import { BreakpointOptions, PauseSnapshot, PauseSnapshotFrame, ThreadInfo, ThreadManager } from "./threads";
+import { exceptionFilterConditionMatches, ExceptionFilterCondition, formatPathForVm, parseExceptionFilterCondition, parseHitCondition } from "./utils";
 
 const maxValuesToCallToString = 100;
+// The default number of instances to fetch when listing the live instances of a class.
+const maxInstancesToFetch = 100;
+// The number of frames to record in each snapshot when step history is enabled.
+const maxStepHistoryFrames = 20;
 // Prefix that appears at the start of stack frame names that are unoptimized
 // which we'd prefer not to show to the user.
 const unoptimizedPrefix = "[Unoptimized] ";
 const trailingSemicolonPattern = new RegExp(`;\\s*$`, "m");
 const logDapTraffic = false;
+// Instance kinds for typed data lists (Uint8List, Float64x2List, etc.), which can be viewed as memory.
+const typedDataKindPattern = /^(Uint|Int|Float)\d+(Clamped)?(x\d+)?List$/;
+const exceptionFilterConditionDescription = "e.g. StateError, package:my_app/, !package:my_app/generated/";
+
+// A breakpoint's options along with the ID of the VM breakpoint that was hit.
+type BreakpointWithId = BreakpointOptions & { id: string };
 
 // TODO: supportsSetVariable
-// TODO: class variables?
-// TODO: library variables?
 // stepBackRequest(response: DebugProtocol.StepBackResponse, args: DebugProtocol.StepBackArguments): void;
 // restartFrameRequest(response: DebugProtocol.RestartFrameResponse, args: DebugProtocol.RestartFrameArguments): void;
 // completionsRequest(response: DebugProtocol.CompletionsResponse, args: DebugProtocol.CompletionsArguments): void;
@@ -85,6 +96,13 @@ export class DartDebugSession extends DebugSession {
 	private remoteEditorTerminalLaunched?: Promise<RemoteEditorTerminalProcess>;
 	private serviceInfoFileCompleter?: PromiseCompleter<string>;
 	protected threadManager: ThreadManager;
+	protected dataBreakpointManager: DataBreakpointManager;
+	protected collectCoverage = false;
+	protected coverageFile?: string;
+	protected coverageCollector: CoverageCollector;
+	protected cpuProfiler: CpuProfiler;
+	// The conditions of the enabled exception filters, or undefined if any enabled filter has no condition.
+	private exceptionFilterConditions?: ExceptionFilterCondition[];
 	public packageMap?: PackageMap;
 	protected sendStdOutToConsole: boolean = true;
 	protected supportsObservatoryWebApp: boolean = true;
@@ -109,6 +127,9 @@ export class DartDebugSession extends DebugSession {
 		super();
 
 		this.threadManager = new ThreadManager(this.logger, this);
+		this.dataBreakpointManager = new DataBreakpointManager(this.logger, this, this.threadManager);
+		this.coverageCollector = new CoverageCollector(this.logger, this, (uri) => this.convertVMUriToSourcePath(uri));
+		this.cpuProfiler = new CpuProfiler(this.logger, this, (uri) => this.convertVMUriToSourcePath(uri));
 	}
 
 	private logDapRequest(name: string, args: unknown) {
@@ -141,13 +162,18 @@ export class DartDebugSession extends DebugSession {
 		response.body.supportsEvaluateForHovers = true;
 		response.body.supportsDelayedStackTraceLoading = true;
 		response.body.supportsConditionalBreakpoints = true;
+		response.body.supportsHitConditionalBreakpoints = true;
 		response.body.supportsLogPoints = true;
+		response.body.supportsDataBreakpoints = true;
+		response.body.supportsFunctionBreakpoints = true;
+		response.body.supportsReadMemoryRequest = true;
 		response.body.supportsTerminateRequest = true;
 		response.body.supportsRestartFrame = true;
 		response.body.supportsClipboardContext = true;
+		response.body.supportsExceptionFilterOptions = true;
 		response.body.exceptionBreakpointFilters = [
-			{ filter: "All", label: "All Exceptions", default: false },
-			{ filter: "Unhandled", label: "Uncaught Exceptions", default: true },
+			{ filter: "All", label: "All Exceptions", default: false, supportsCondition: true, conditionDescription: exceptionFilterConditionDescription },
+			{ filter: "Unhandled", label: "Uncaught Exceptions", default: true, supportsCondition: true, conditionDescription: exceptionFilterConditionDescription },
 		];
 		this.logDapResponse(response);
 		this.sendResponse(response);
@@ -208,7 +234,7 @@ export class DartDebugSession extends DebugSession {
 
 				this.childProcess = process;
 				this.processExited = false;
-				this.processExit = new Promise((resolve) => process.on("exit", (code, signal) => resolve({ code, signal })));
+				this.processExit = this.waitForProcessExit(process);
 				process.stdout.setEncoding("utf8");
 				process.stdout.on("data", async (data) => {
 					let match: RegExpExecArray | null = null;
@@ -282,6 +308,11 @@ export class DartDebugSession extends DebugSession {
 		this.toolEnv = args.toolEnv;
 		this.useFlutterStructuredErrors = args.toolArgs?.includes("--dart-define=flutter.inspector.structuredErrors=true") ?? false;
 		this.useInspectorNotificationsForWidgetErrors = !!args.useInspectorNotificationsForWidgetErrors;
+		this.collectCoverage = !!args.collectCoverage;
+		this.coverageFile = args.coverageFile;
+		this.threadManager.stepHistorySize = args.stepHistorySize ?? 0;
+		if (this.threadManager.stepHistorySize > 0)
+			this.sendEvent(new CapabilitiesEvent({ supportsStepBack: true }));
 	}
 
 	protected async attachRequest(response: DebugProtocol.AttachResponse, args: DartLaunchArgs & DebugProtocol.AttachRequestArguments): Promise<void> {
@@ -357,6 +388,12 @@ export class DartDebugSession extends DebugSession {
 		return process;
 	}
 
+	/// Returns a promise that resolves when the spawned process has exited. Subclasses that start
+	/// additional processes can override this to keep the session alive until they have all exited.
+	protected waitForProcessExit(process: SpawnedProcess): Promise<{ code: number | null, signal: string | null }> {
+		return new Promise((resolve) => process.on("exit", (code, signal) => resolve({ code, signal })));
+	}
+
 	protected async spawnRemoteEditorProcess(args: DartLaunchArgs): Promise<RemoteEditorTerminalProcess> {
 		const appArgs = this.buildAppArgs(args);
 		const dartPath = path.join(args.dartSdkPath, dartVMPath);
@@ -562,6 +599,10 @@ export class DartDebugSession extends DebugSession {
 					// between getting the list and then starting to listen for events.
 					await this.subscribeToStreams();
 
+					// Pause isolates when they exit so that we can collect coverage before they go away.
+					if (this.collectCoverage)
+						await this.vmService.setFlag("pause_isolates_on_exit", "true");
+
 					await this.vmService.getVM().then(async (vmResult): Promise<void> => {
 						if (!this.vmService)
 							return;
@@ -753,6 +794,7 @@ export class DartDebugSession extends DebugSession {
 		}
 
 		this.log(`${request}: Removing all stored data...`);
+		this.dataBreakpointManager.dispose();
 		this.threadManager.removeAllStoredData();
 
 		this.log(`${request}: Waiting for process to finish...`);
@@ -795,7 +837,7 @@ export class DartDebugSession extends DebugSession {
 	): Promise<void> {
 		this.logDapRequest("teminateRequest", args);
 		this.log(`Termination requested!`);
-		this.isTerminating = true;
+		this.handleTerminationRequested();
 		this.startProgress(debugTerminatingProgressId, "Terminating debug session");
 
 		if (this.expectAdditionalPidToTerminate && !this.additionalPidsToTerminate.size) {
@@ -827,7 +869,7 @@ export class DartDebugSession extends DebugSession {
 	): Promise<void> {
 		this.logDapRequest("disconnectRequest", args);
 		this.log(`Disconnect requested!`);
-		this.isTerminating = true;
+		this.handleTerminationRequested();
 		try {
 			const succeeded = await this.raceIgnoringErrors(() => this.terminate(false), 2000);
 			// If we hit the 2s timeout, then terminate more forcefully.
@@ -844,6 +886,14 @@ export class DartDebugSession extends DebugSession {
 		super.disconnectRequest(response, args);
 	}
 
+	/// Notifies the editor if termination was requested (for example by the user clicking Stop) before
+	/// the process exited by itself, so that it can avoid things like retrying failed tests.
+	private handleTerminationRequested() {
+		if (!this.isTerminating && !this.processExited)
+			this.sendEvent(new Event("dart.terminationRequested"));
+		this.isTerminating = true;
+	}
+
 	protected async setBreakPointsRequest(
 		response: DebugProtocol.SetBreakpointsResponse,
 		args: DebugProtocol.SetBreakpointsArguments,
@@ -866,9 +916,13 @@ export class DartDebugSession extends DebugSession {
 
 		try {
 			const result = await this.threadManager.setBreakpoints(uri, breakpoints);
-			const bpResponse = [];
-			for (const bpRes of result) {
-				bpResponse.push({ verified: !!bpRes });
+			const bpResponse: DebugProtocol.Breakpoint[] = [];
+			for (let i = 0; i < result.length; i++) {
+				const hitCondition = breakpoints[i].hitCondition;
+				if (hitCondition && !parseHitCondition(hitCondition))
+					bpResponse.push({ verified: false, message: `Invalid hit condition "${hitCondition}". Use a number or an expression like ">= 10" or "% 3 == 0".` });
+				else
+					bpResponse.push({ verified: !!result[i] });
 			}
 
 			response.body = { breakpoints: bpResponse };
@@ -879,23 +933,139 @@ export class DartDebugSession extends DebugSession {
 		}
 	}
 
+	protected async setFunctionBreakPointsRequest(
+		response: DebugProtocol.SetFunctionBreakpointsResponse,
+		args: DebugProtocol.SetFunctionBreakpointsArguments,
+	): Promise<void> {
+		this.logDapRequest("setFunctionBreakPointsRequest", args);
+		if (this.noDebug) {
+			response.body = { breakpoints: args.breakpoints.map((b) => ({ verified: false })) };
+			this.logDapResponse(response);
+			this.sendResponse(response);
+			return;
+		}
+
+		try {
+			response.body = { breakpoints: await this.threadManager.setFunctionBreakpoints(args.breakpoints) };
+			this.logDapResponse(response);
+			this.sendResponse(response);
+		} catch (error) {
+			this.errorResponse(response, `${error}`);
+		}
+	}
+
+	protected async dataBreakpointInfoRequest(
+		response: DebugProtocol.DataBreakpointInfoResponse,
+		args: DebugProtocol.DataBreakpointInfoArguments,
+	): Promise<void> {
+		this.logDapRequest("dataBreakpointInfoRequest", args);
+		const notAvailable = (description: string) => {
+			response.body = { dataId: null, description };
+			this.logDapResponse(response);
+			this.sendResponse(response);
+		};
+
+		const data = args.variablesReference ? this.threadManager.getStoredData(args.variablesReference) : undefined;
+		if (!data || !this.vmService || this.noDebug)
+			return notAvailable("Data breakpoints are only available for fields");
+		// Without identities, changes to fields that hold objects can't be reliably detected.
+		if (!this.vmServiceCapabilities.hasIdentityHashCode)
+			return notAvailable("Data breakpoints require a newer version of the Dart SDK");
+
+		const thread = data.thread;
+		let target: DataBreakpointTarget | undefined;
+		try {
+			if (data.data.type === StaticFieldsScope.type || data.data.type === GlobalsScope.type) {
+				// Static fields are watched using the ID of the field itself.
+				let fields: VMFieldRef[];
+				let prefix = "";
+				if (data.data.type === StaticFieldsScope.type) {
+					const result = await this.vmService.getObject(thread.ref.id, (data.data as StaticFieldsScope).classRef.id);
+					const cls = result.result as VMClass;
+					fields = cls.fields || [];
+					prefix = `${cls.name}.`;
+				} else {
+					const result = await this.vmService.getObject(thread.ref.id, (data.data as GlobalsScope).libraryRef.id);
+					fields = (result.result as VMLibrary).variables || [];
+				}
+				const field = fields.find((f) => f.name === args.name);
+				if (field)
+					target = { isolateId: thread.ref.id, objectId: field.id, description: `${prefix}${field.name}` };
+			} else if (data.data.type === "@Instance") {
+				const instanceRef = data.data as InstanceWithEvaluateName;
+				const result = await this.vmService.getObject(thread.ref.id, instanceRef.id);
+				const instance = result.result as VMInstance;
+				// Only fields can be watched (not getters or collection elements).
+				if (instance.type === "Instance" && instance.fields?.find((f) => f.decl.name === args.name)) {
+					const owner = instanceRef.evaluateName ?? instanceRef.class?.name ?? "<instance>";
+					target = { isolateId: thread.ref.id, objectId: instanceRef.id, fieldName: args.name, description: `${owner}.${args.name}` };
+				}
+			}
+		} catch (e) {
+			this.logger.error(e);
+		}
+
+		if (!target)
+			return notAvailable("Data breakpoints are only available for fields");
+
+		response.body = {
+			accessTypes: ["write"],
+			canPersist: false,
+			dataId: DataBreakpointManager.encodeDataId(target),
+			description: `Break when ${target.description} changes`,
+		};
+		this.logDapResponse(response);
+		this.sendResponse(response);
+	}
+
+	protected async setDataBreakpointsRequest(
+		response: DebugProtocol.SetDataBreakpointsResponse,
+		args: DebugProtocol.SetDataBreakpointsArguments,
+	): Promise<void> {
+		this.logDapRequest("setDataBreakpointsRequest", args);
+		try {
+			const breakpoints = await this.dataBreakpointManager.setDataBreakpoints(args.breakpoints);
+			response.body = { breakpoints };
+			this.logDapResponse(response);
+			this.sendResponse(response);
+		} catch (error) {
+			this.errorResponse(response, `${error}`);
+		}
+	}
+
 	protected async setExceptionBreakPointsRequest(
 		response: DebugProtocol.SetExceptionBreakpointsResponse,
 		args: DebugProtocol.SetExceptionBreakpointsArguments,
 	): Promise<void> {
 		this.logDapRequest("setExceptionBreakPointsRequest", args);
 		const filters: string[] = args.filters;
+		const filterOptions = args.filterOptions || [];
+		const filterEnabled = (filter: string) => filters.indexOf(filter) !== -1 || !!filterOptions.find((o) => o.filterId === filter);
+		const filterCondition = (filter: string) => filterOptions.find((o) => o.filterId === filter && !!o.condition)?.condition;
 
 		let mode: VmExceptionMode = "None";
+		const enabledFilters: string[] = [];
 
 		// If we're running in noDebug mode, we'll always set None.
 		if (!this.noDebug) {
-			if (filters.indexOf("Unhandled") !== -1)
+			if (filterEnabled("Unhandled")) {
 				mode = "Unhandled";
-			if (filters.indexOf("All") !== -1)
+				enabledFilters.push("Unhandled");
+			}
+			if (filterEnabled("All")) {
 				mode = "All";
+				enabledFilters.push("All");
+			}
 		}
 
+		// The VM doesn't tell us whether an exception is caught when pausing for all exceptions, so when
+		// both filters are enabled we stop if either condition matches. This ensures uncaught exceptions
+		// are never skipped because of the condition on All, at the cost of also stopping for caught
+		// exceptions that match the condition on Unhandled (or all of them, if it has no condition).
+		const conditions = enabledFilters.map(filterCondition);
+		this.exceptionFilterConditions = conditions.length && conditions.every((c) => c)
+			? conditions.map((c) => parseExceptionFilterCondition(c!))
+			: undefined;
 		await this.threadManager.setExceptionPauseMode(mode);
 
 		this.logDapResponse(response);
@@ -927,6 +1097,7 @@ export class DartDebugSession extends DebugSession {
 			return;
 		}
 
+		this.dataBreakpointManager.handleUserPause(thread.ref.id);
 		this.vmService.pause(thread.ref.id)
 			.then(() => {
 				this.logDapResponse(response);
@@ -977,6 +1148,18 @@ export class DartDebugSession extends DebugSession {
 			return;
 		}
 
+		const snapshot = thread.viewingStepHistory;
+		if (snapshot) {
+			const frames = snapshot.frames.slice(startFrame, levels ? startFrame + levels : undefined);
+			response.body = {
+				stackFrames: frames.map((f) => ({ ...f.frame, id: thread.storeData(new HistoricalFrame(snapshot, f)) })),
+				totalFrames: snapshot.frames.length,
+			};
+			this.logDapResponse(response);
+			this.sendResponse(response);
+			return;
+		}
+
 		if (!this.vmService) {
 			this.errorResponse(response, `No VM service connection`);
 			return;
@@ -1135,13 +1318,24 @@ export class DartDebugSession extends DebugSession {
 		}
 	}
 
-	protected scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments): void {
+	protected async scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments): Promise<void> {
 		this.logDapRequest("scopesRequest", args);
 		const frameId = args.frameId;
 		const data = this.threadManager.getStoredData(frameId);
-		const frame: VMFrame = data.data as VMFrame;
 
-		// TODO: class variables? library variables?
+		if (data.data.type === HistoricalFrame.type) {
+			const historicalFrame = data.data as HistoricalFrame;
+			const historicalScopes: Scope[] = [];
+			if (historicalFrame.snapshot.exception)
+				historicalScopes.push(new Scope("Exception", data.thread.storeData(new HistoricalVariables([historicalFrame.snapshot.exception]))));
+			historicalScopes.push(new Scope("Locals", data.thread.storeData(new HistoricalVariables(historicalFrame.frame.locals))));
+			response.body = { scopes: historicalScopes };
+			this.logDapResponse(response);
+			this.sendResponse(response);
+			return;
+		}
+
+		const frame: VMFrame = data.data as VMFrame;
 
 		const variablesReference = data.thread.storeData(frame);
 		const scopes: Scope[] = [];
@@ -1152,11 +1346,42 @@ export class DartDebugSession extends DebugSession {
 
 		scopes.push(new Scope("Locals", variablesReference));
 
+		// Statics and globals require additional VM service requests (and may be large) so are
+		// marked as expensive so the editor will only fetch them when expanded.
+		const classRef = this.getEnclosingClass(frame.function);
+		if (classRef)
+			scopes.push(new Scope("Static Fields", data.thread.storeData(new StaticFieldsScope(classRef)), true));
+
+		const libraryRef = await this.getLibraryForFrame(data.thread, frame);
+		if (libraryRef)
+			scopes.push(new Scope("Globals", data.thread.storeData(new GlobalsScope(libraryRef)), true));
+
 		response.body = { scopes };
 		this.logDapResponse(response);
 		this.sendResponse(response);
 	}
 
+	private getEnclosingClass(func: VMFuncRef | undefined): VMClassRef | undefined {
+		// Closures are owned by their enclosing function, so walk up until we find
+		// something that is not a function.
+		let owner = func?.owner;
+		while (owner && owner.type === "@Function")
+			owner = (owner as VMFuncRef).owner;
+		return owner?.type === "@Class" ? owner as VMClassRef : undefined;
+	}
+
+	private async getLibraryForFrame(thread: ThreadInfo, frame: VMFrame): Promise<VMLibraryRef | undefined> {
+		if (!frame.location)
+			return undefined;
+		try {
+			const script = await thread.getScript(frame.location.script);
+			return script.library;
+		} catch (e) {
+			this.logger.error(e);
+			return undefined;
+		}
+	}
+
 	protected async variablesRequest(response: DebugProtocol.VariablesResponse, args: DebugProtocol.VariablesArguments): Promise<void> {
 		this.logDapRequest("variablesRequest", args);
 		if (!this.vmService) {
@@ -1227,6 +1452,35 @@ export class DartDebugSession extends DebugSession {
 			response.body = { variables };
 			this.logDapResponse(response);
 			this.sendResponse(response);
+		} else if (data.data.type === StaticFieldsScope.type || data.data.type === GlobalsScope.type) {
+			try {
+				let variables: DebugProtocol.Variable[];
+				if (data.data.type === StaticFieldsScope.type) {
+					const classRef = (data.data as StaticFieldsScope).classRef;
+					const result = await this.vmService.getObject(thread.ref.id, classRef.id);
+					const cls = result.result as VMClass;
+					const staticFields = (cls.fields || []).filter((f) => f.static);
+					variables = await this.staticFieldsToVariables(thread, staticFields, (f) => `${cls.name}.${f.name}`);
+				} else {
+					const libraryRef = (data.data as GlobalsScope).libraryRef;
+					const result = await this.vmService.getObject(thread.ref.id, libraryRef.id);
+					const library = result.result as VMLibrary;
+					variables = await this.staticFieldsToVariables(thread, library.variables || [], (f) => f.name);
+				}
+				response.body = { variables };
+			} catch (error) {
+				response.body = {
+					variables: [
+						{ name: "<error>", value: this.errorAsDisplayValue(error), variablesReference: 0 },
+					],
+				};
+			}
+			this.logDapResponse(response);
+			this.sendResponse(response);
+		} else if (data.data.type === HistoricalVariables.type) {
+			response.body = { variables: (data.data as HistoricalVariables).variables };
+			this.logDapResponse(response);
+			this.sendResponse(response);
 		} else if (data.data.type === InspectedVariable.type) {
 			const variable = data.data as InspectedVariable;
 			response.body = {
@@ -1356,6 +1610,22 @@ export class DartDebugSession extends DebugSession {
 		}
 	}
 
+	private async staticFieldsToVariables(thread: ThreadInfo, fieldRefs: VMFieldRef[], getEvaluateName: (field: VMFieldRef) => string): Promise<DebugProtocol.Variable[]> {
+		const fields = sortBy(fieldRefs, (f) => f.name);
+		return Promise.all(fields.map(async (fieldRef, i) => {
+			try {
+				// Static values are not included on the FieldRef, so we need to fetch the full Field.
+				const result = await this.vmService!.getObject(thread.ref.id, fieldRef.id);
+				const field = result.result as VMField;
+				if (!field.staticValue)
+					return { name: fieldRef.name, value: "<not available>", variablesReference: 0 };
+				return this.instanceRefToVariable(thread, true, getEvaluateName(fieldRef), fieldRef.name, field.staticValue, i <= maxValuesToCallToString);
+			} catch (e) {
+				return { name: fieldRef.name, value: this.errorAsDisplayValue(e), variablesReference: 0 };
+			}
+		}));
+	}
+
 	private errorAsDisplayValue(error: any) {
 		if (!error)
 			return `<unknown error>`;
@@ -1418,6 +1688,50 @@ export class DartDebugSession extends DebugSession {
 		}
 	}
 
+	protected async readMemoryRequest(response: DebugProtocol.ReadMemoryResponse, args: DebugProtocol.ReadMemoryArguments): Promise<void> {
+		this.logDapRequest("readMemoryRequest", args);
+		if (!this.vmService) {
+			this.errorResponse(response, `No VM service connection`);
+			return;
+		}
+
+		const data = this.threadManager.getStoredData(parseInt(args.memoryReference, 10));
+		if (!data || data.data.type !== TypedDataMemory.type) {
+			this.errorResponse(response, `Memory is no longer available (maybe debug session finished?)`);
+			return;
+		}
+		const thread = data.thread;
+		const memory = data.data as TypedDataMemory;
+
+		try {
+			// Offsets and counts for typed data are in elements, so always read from a Uint8List view
+			// of the bytes to avoid having to handle element sizes (and so ByteData works).
+			if (!memory.byteView) {
+				const result = await this.vmService.evaluate(thread.ref.id, memory.instance.id, "buffer.asUint8List(offsetInBytes, lengthInBytes)", true);
+				if (result.result.type === "@Error")
+					throw new Error((result.result as VMErrorRef).message);
+				memory.byteView = result.result as VMInstanceRef;
+			}
+
+			const length = memory.byteView.length || 0;
+			const start = Math.max(0, Math.min(length, (args.offset || 0)));
+			const count = Math.max(0, Math.min(length - start, args.count));
+			const bytes = count
+				? ((await this.vmService.getObject(thread.ref.id, memory.byteView.id, start, count)).result as VMInstance).bytes
+				: undefined;
+
+			response.body = {
+				address: start.toString(),
+				data: bytes,
+				unreadableBytes: args.count - count,
+			};
+			this.logDapResponse(response);
+			this.sendResponse(response);
+		} catch (e) {
+			this.errorResponse(response, errorString(e));
+		}
+	}
+
 	protected setVariableRequest(response: DebugProtocol.SetVariableResponse, args: DebugProtocol.SetVariableArguments): void {
 		this.logDapRequest("setVariableRequest", args);
 		// const variablesReference: number = args.variablesReference;
@@ -1435,6 +1749,12 @@ export class DartDebugSession extends DebugSession {
 			this.errorResponse(response, `No thread with id ${args.threadId}`);
 			return;
 		}
+		if (thread.viewingStepHistory) {
+			// Continuing while viewing history returns to the live pause rather than resuming.
+			// tslint:disable-next-line: no-floating-promises
+			this.moveThroughStepHistory(response, thread, "live");
+			return;
+		}
 		thread.resume().then(() => {
 			response.body = { allThreadsContinued: false };
 			this.logDapResponse(response);
@@ -1449,6 +1769,11 @@ export class DartDebugSession extends DebugSession {
 			this.errorResponse(response, `No thread with id ${args.threadId}`);
 			return;
 		}
+		if (thread.viewingStepHistory) {
+			// tslint:disable-next-line: no-floating-promises
+			this.moveThroughStepHistory(response, thread, "forward");
+			return;
+		}
 		const type = thread.atAsyncSuspension ? "OverAsyncSuspension" : "Over";
 		thread.resume(type).then(() => {
 			this.logDapResponse(response);
@@ -1463,6 +1788,11 @@ export class DartDebugSession extends DebugSession {
 			this.errorResponse(response, `No thread with id ${args.threadId}`);
 			return;
 		}
+		if (thread.viewingStepHistory) {
+			// tslint:disable-next-line: no-floating-promises
+			this.moveThroughStepHistory(response, thread, "forward");
+			return;
+		}
 		thread.resume("Into").then(() => {
 			this.logDapResponse(response);
 			this.sendResponse(response);
@@ -1476,6 +1806,11 @@ export class DartDebugSession extends DebugSession {
 			this.errorResponse(response, `No thread with id ${args.threadId}`);
 			return;
 		}
+		if (thread.viewingStepHistory) {
+			// tslint:disable-next-line: no-floating-promises
+			this.moveThroughStepHistory(response, thread, "forward");
+			return;
+		}
 		thread.resume("Out").then(() => {
 			this.logDapResponse(response);
 			this.sendResponse(response);
@@ -1494,6 +1829,10 @@ export class DartDebugSession extends DebugSession {
 
 		const data = this.threadManager.getStoredData(frameId);
 		const thread = data.thread;
+		if (data.data.type === HistoricalFrame.type) {
+			this.errorResponse(response, "Unable to restart a frame from a recorded pause");
+			return;
+		}
 		const frame: VMFrame = data.data as VMFrame;
 
 		thread.resume("Rewind", frame.index).then(() => {
@@ -1502,10 +1841,63 @@ export class DartDebugSession extends DebugSession {
 		}).catch((error) => this.errorResponse(response, `${error}`));
 	}
 
-	protected reverseContinueRequest(response: DebugProtocol.ReverseContinueResponse, args: DebugProtocol.ReverseContinueArguments): void {
+	protected async reverseContinueRequest(response: DebugProtocol.ReverseContinueResponse, args: DebugProtocol.ReverseContinueArguments): Promise<void> {
 		this.logDapRequest("reverseContinueRequest", args);
-		this.logToUser("Reverse continue is not supported\n");
-		this.errorResponse(response, `Reverse continue is not supported for the Dart debugger`);
+		if (!this.threadManager.stepHistorySize) {
+			this.logToUser("Reverse continue is not supported\n");
+			this.errorResponse(response, `Reverse continue is not supported for the Dart debugger`);
+			return;
+		}
+		const thread = this.threadManager.getThreadInfoFromNumber(args.threadId);
+		if (!thread) {
+			this.errorResponse(response, `No thread with id ${args.threadId}`);
+			return;
+		}
+		await this.moveThroughStepHistory(response, thread, "oldest");
+	}
+
+	protected async stepBackRequest(response: DebugProtocol.StepBackResponse, args: DebugProtocol.StepBackArguments): Promise<void> {
+		this.logDapRequest("stepBackRequest", args);
+		if (!this.threadManager.stepHistorySize) {
+			this.errorResponse(response, `Step back requires stepHistorySize to be set in the launch configuration`);
+			return;
+		}
+		const thread = this.threadManager.getThreadInfoFromNumber(args.threadId);
+		if (!thread) {
+			this.errorResponse(response, `No thread with id ${args.threadId}`);
+			return;
+		}
+		await this.moveThroughStepHistory(response, thread, "back");
+	}
+
+	private async moveThroughStepHistory(response: DebugProtocol.Response, thread: ThreadInfo, direction: "back" | "forward" | "oldest" | "live"): Promise<void> {
+		if (!thread.paused) {
+			this.errorResponse(response, `Thread ${thread.num} is not paused`);
+			return;
+		}
+
+		const didMove = await thread.moveThroughStepHistory(direction);
+		if (!didMove) {
+			this.errorResponse(response, direction === "forward" || direction === "live" ? "Already at the current pause" : "No earlier pauses have been recorded");
+			return;
+		}
+
+		this.logDapResponse(response);
+		this.sendResponse(response);
+
+		// Send a new stopped event so the editor refreshes the call stack and variables.
+		const snapshot = thread.viewingStepHistory;
+		const position = thread.stepHistoryPosition;
+		const liveSnapshot = thread.currentPauseSnapshot;
+		const evt = new StoppedEvent(
+			snapshot?.reason ?? liveSnapshot?.reason ?? "pause",
+			thread.num,
+			snapshot ? snapshot.exceptionText : liveSnapshot?.exceptionText,
+		) as StoppedEvent & DebugProtocol.StoppedEvent;
+		if (snapshot && position)
+			evt.body.description = `Recorded pause ${position.index + 1} of ${position.count} (read-only)`;
+		this.logDapEvent(evt);
+		this.sendEvent(evt);
 	}
 
 	protected async evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments): Promise<void> {
@@ -1542,6 +1934,9 @@ export class DartDebugSession extends DebugSession {
 				//   2. The VM sometimes doesn't respond to your requests at all
 				//      https://github.com/flutter/flutter/issues/18595
 				result = await this.withTimeout(this.vmService.evaluate(thread.ref.id, rootLib.id, expression, true));
+			} else if (data.data.type === HistoricalFrame.type) {
+				this.errorResponse(response, "Expressions cannot be evaluated in recorded pauses");
+				return;
 			} else {
 				const frame = data.data as VMFrame;
 				if ((expression === "$e" || expression.startsWith("$e.")) && thread.exceptionReference) {
@@ -1683,6 +2078,34 @@ export class DartDebugSession extends DebugSession {
 					if (completer)
 						completer.resolve({ url: args.exposedUrl });
 					break;
+				case "getAllocationProfile":
+					response.body = await this.getAllocationProfile(args && args.isolateId, !!(args && args.gc));
+					this.logDapResponse(response);
+					this.sendResponse(response);
+					break;
+				case "getInstances":
+					response.body = await this.getInstances(args.isolateId, args.classId, args.limit || maxInstancesToFetch);
+					this.logDapResponse(response);
+					this.sendResponse(response);
+					break;
+				case "startCpuProfile":
+					await this.cpuProfiler.start(this.getThreadForRequest(args && args.isolateId));
+					this.logDapResponse(response);
+					this.sendResponse(response);
+					break;
+				case "stopCpuProfile":
+					response.body = await this.cpuProfiler.stop(this.getThreadForRequest(args && args.isolateId));
+					this.logDapResponse(response);
+					this.sendResponse(response);
+					break;
+				case "collectCoverage":
+					await Promise.all(this.threadManager.threads
+						.filter((thread) => thread.runnable)
+						.map((thread) => this.coverageCollector.collect(thread)));
+					response.body = { lcovFile: this.writeCoverage() };
+					this.logDapResponse(response);
+					this.sendResponse(response);
+					break;
 				case "updateDebugOptions":
 					this.debugExternalLibraries = !!args.debugExternalLibraries;
 					this.debugSdkLibraries = !!args.debugSdkLibraries;
@@ -1717,6 +2140,58 @@ export class DartDebugSession extends DebugSession {
 		}
 	}
 
+	/// Gets the thread for a custom request that may optionally specify an isolate.
+	private getThreadForRequest(isolateId: string | undefined): ThreadInfo {
+		// If no isolate was specified, prefer one that's paused since that's likely the one the user is looking at.
+		const thread = isolateId
+			? this.threadManager.threads.find((t) => t.ref.id === isolateId)
+			: (this.threadManager.threads.find((t) => t.paused) || this.threadManager.threads[0]);
+		if (!thread)
+			throw new Error("No isolate is available");
+		return thread;
+	}
+
+	private async getAllocationProfile(isolateId: string | undefined, gc: boolean): Promise<AllocationProfile> {
+		if (!this.vmService)
+			throw new Error("VM service connection is not available");
+
+		const thread = this.getThreadForRequest(isolateId);
+		// Instances fetched for the previous capture (and anything expanded from them) are stored against the
+		// isolate and are only released when it resumes or exits, which may never happen if it's not paused. The
+		// new capture replaces the previous one, so release them now, as would happen when resuming.
+		if (!thread.paused)
+			this.threadManager.removeStoredData(thread);
+		const result = await this.vmService.getAllocationProfile(thread.ref.id, gc);
+		const profile = result.result as VMAllocationProfile;
+		return {
+			classes: profile.members
+				.filter((m) => m.instancesCurrent)
+				.map((m) => ({
+					bytes: m.bytesCurrent,
+					classId: m.class.id,
+					className: m.class.name,
+					instances: m.instancesCurrent,
+					libraryUri: m.class.library?.uri,
+				})),
+			isolateId: thread.ref.id,
+			isolateName: thread.ref.name,
+		};
+	}
+
+	private async getInstances(isolateId: string, classId: string, limit: number): Promise<ClassInstances> {
+		if (!this.vmService)
+			throw new Error("VM service connection is not available");
+
+		const thread = this.threadManager.threads.find((t) => t.ref.id === isolateId);
+		if (!thread)
+			throw new Error("Isolate is no longer available");
+
+		const result = await this.vmService.getInstances(isolateId, classId, limit);
+		const instanceSet = result.result as VMInstanceSet;
+		const instances = await Promise.all(instanceSet.instances.map((instance, i) => this.instanceRefToVariable(thread, false, `[${i}]`, `[${i}]`, instance, false)));
+		return { totalCount: instanceSet.totalCount, instances };
+	}
+
 	// IsolateStart, IsolateRunnable, IsolateExit, IsolateUpdate, ServiceExtensionAdded
 	public async handleIsolateEvent(event: VMEvent): Promise<void> {
 		// Don't process any events while the debugger is still running init code.
@@ -1727,6 +2202,10 @@ export class DartDebugSession extends DebugSession {
 			await this.threadManager.registerThread(event.isolate!, kind);
 		} else if (kind === "IsolateExit") {
 			this.threadManager.handleIsolateExit(event.isolate!);
+			this.dataBreakpointManager.handleIsolateExit(event.isolate!.id);
+		} else if (kind === "IsolateReload") {
+			// A reload may have added functions that function breakpoints couldn't previously find.
+			await this.threadManager.updateFunctionBreakpoints();
 		} else if (kind === "ServiceExtensionAdded") {
 			this.handleServiceExtensionAdded(event);
 		}
@@ -1835,6 +2314,7 @@ export class DartDebugSession extends DebugSession {
 
 		// For PausePostRequest we need to re-send all breakpoints; this happens after a flutter restart
 		if (kind === "PausePostRequest") {
+			thread.resetHitCounts();
 			try {
 				await this.threadManager.resetBreakpoints();
 			} catch (e) {
@@ -1847,6 +2327,14 @@ export class DartDebugSession extends DebugSession {
 				if (e.code !== 106)
 					throw e;
 			}
+		} else if (kind === "PauseExit" && this.collectCoverage) {
+			try {
+				await this.coverageCollector.collect(thread);
+				this.writeCoverage();
+			} catch (e) {
+				this.logger.error(e);
+			}
+			await this.vmService.resume(event.isolate.id);
 		} else if (kind === "PauseStart") {
 			// "PauseStart" should auto-resume after breakpoints are set if we launched the process.
 			if (this.childProcess)
@@ -1866,7 +2354,7 @@ export class DartDebugSession extends DebugSession {
 			if (kind === "PauseBreakpoint" && event.pauseBreakpoints && event.pauseBreakpoints.length) {
 				reason = "breakpoint";
 
-				const potentialBreakpoints: Array<DebugProtocol.SourceBreakpoint | undefined> = event.pauseBreakpoints.map((bp) => thread.breakpoints[bp.id]);
+				const potentialBreakpoints: Array<BreakpointWithId | undefined> = event.pauseBreakpoints.map((bp) => thread.breakpoints[bp.id] ? { ...thread.breakpoints[bp.id], id: bp.id } : undefined);
 				// When attaching to an already-stopped process, this event can be handled before the
 				// breakpoints have been registered. If that happens, replace any unknown breakpoints with
 				// dummy unconditional breakpoints.
@@ -1879,13 +2367,19 @@ export class DartDebugSession extends DebugSession {
 					// so strip the undefineds.
 					const breakpoints = potentialBreakpoints.filter(notUndefined);
 
-					const hasUnconditionalBreakpoints = !!breakpoints.find((bp) => !bp.condition && !bp.logMessage);
-					const conditionalBreakpoints = breakpoints.filter((bp) => bp.condition) as Array<DebugProtocol.SourceBreakpoint & { condition: string }>;
-					const logPoints = breakpoints.filter((bp) => bp.logMessage);
+					const hasUnconditionalBreakpoints = !!breakpoints.find((bp) => !bp.condition && !bp.hitCondition && !bp.logMessage);
+					const conditionalBreakpoints = breakpoints.filter((bp) => bp.condition && !bp.hitCondition) as Array<BreakpointWithId & { condition: string }>;
+					const hitCountBreakpoints = breakpoints.filter((bp) => bp.hitCondition) as Array<BreakpointWithId & { hitCondition: string }>;
+
+					// Hit counts must be updated for every breakpoint (whose condition is true) even if we've already
+					// decided to stop, so evaluate them first.
+					const passedHitCountBreakpoints = await this.breakpointsPassingHitConditions(hitCountBreakpoints, thread);
+					const logPoints = breakpoints.filter((bp) => bp.logMessage && (!bp.hitCondition || passedHitCountBreakpoints.indexOf(bp) !== -1));
 
 					// Evalute conditions to see if we should remain stopped or continue.
 					shouldRemainedStoppedOnBreakpoint =
 						hasUnconditionalBreakpoints
+						|| !!passedHitCountBreakpoints.find((bp) => !bp.logMessage)
 						|| await this.anyBreakpointConditionReturnsTrue(conditionalBreakpoints, thread);
 
 					// Output any logpoint messages.
@@ -1909,18 +2403,123 @@ export class DartDebugSession extends DebugSession {
 					event.exception
 						? await this.fullValueAsString(event.isolate, event.exception)
 						: undefined;
+
+				if (this.exceptionFilterConditions)
+					shouldRemainedStoppedOnBreakpoint = await this.exceptionMatchesFilterConditions(thread, event, this.exceptionFilterConditions);
+			}
+
+			// Data breakpoints are emulated by checking for changes on every pause, so if anything changed
+			// we should stop and report it, regardless of why we paused.
+			let description: string | undefined;
+			const { changed: changedFields, wasPausedByPolling } = await this.dataBreakpointManager.checkForChanges(event.isolate.id);
+			if (changedFields.length) {
+				// Exceptions keep their own reason (so the exception is shown) but still report the change.
+				if (kind !== "PauseException")
+					reason = "data breakpoint";
+				description = `${changedFields.join(", ")} changed`;
+				shouldRemainedStoppedOnBreakpoint = true;
+			} else if (wasPausedByPolling && kind === "PauseInterrupted") {
+				// Polling saw a change that was reverted (or was only a new identity for the same
+				// value) by the time the isolate paused, so continue without the user seeing a pause.
+				shouldRemainedStoppedOnBreakpoint = false;
 			}
 
 			thread.handlePaused(event);
 			if (shouldRemainedStoppedOnBreakpoint) {
-				this.logDapEvent(new StoppedEvent(reason, thread.num, exceptionText));
-				this.sendEvent(new StoppedEvent(reason, thread.num, exceptionText));
+				const stoppedEvent = new StoppedEvent(reason, thread.num, exceptionText) as StoppedEvent & DebugProtocol.StoppedEvent;
+				if (description)
+					stoppedEvent.body.description = description;
+				this.logDapEvent(stoppedEvent);
+				this.sendEvent(stoppedEvent);
+				if (this.threadManager.stepHistorySize > 0)
+					thread.recordPauseSnapshot(this.capturePauseSnapshot(thread, reason, exceptionText));
 			} else {
 				await thread.resume();
 			}
 		}
 	}
 
+	private async exceptionMatchesFilterConditions(thread: ThreadInfo, event: VMEvent, conditions: ExceptionFilterCondition[]): Promise<boolean> {
+		try {
+			const typeNames = event.exception ? await this.getClassHierarchyNames(thread, event.exception.class) : [];
+			const library = event.topFrame ? await this.getLibraryForFrame(thread, event.topFrame) : undefined;
+			return conditions.some((condition) => exceptionFilterConditionMatches(condition, typeNames, library?.uri));
+		} catch (e) {
+			// If we couldn't check the exception, it's better to stop than to silently skip it.
+			this.logger.error(e);
+			return true;
+		}
+	}
+
+	/// Gets the names of a class, its superclasses and all interfaces they implement.
+	private async getClassHierarchyNames(thread: ThreadInfo, classRef: VMClassRef): Promise<string[]> {
+		const names: string[] = [];
+		const seenClassIds = new Set<string>();
+		const classesToVisit = [classRef];
+		while (classesToVisit.length && this.vmService) {
+			const ref = classesToVisit.shift()!;
+			if (seenClassIds.has(ref.id))
+				continue;
+			seenClassIds.add(ref.id);
+			names.push(ref.name);
+
+			const cls = (await this.vmService.getObject(thread.ref.id, ref.id)).result as VMClass;
+			if (cls.super)
+				classesToVisit.push(cls.super);
+			for (const iface of cls.interfaces || []) {
+				if (iface.typeClass)
+					classesToVisit.push(iface.typeClass);
+			}
+		}
+		return names;
+	}
+
+	private async capturePauseSnapshot(thread: ThreadInfo, reason: string, exceptionText: string | undefined): Promise<PauseSnapshot | undefined> {
+		if (!this.vmService)
+			return undefined;
+
+		try {
+			const limit = this.vmServiceCapabilities.supportsGetStackLimit ? maxStepHistoryFrames : undefined;
+			const result = await this.vmService.getStack(thread.ref.id, limit);
+			const stack = result.result as VMStack;
+			const vmFrames = (stack.asyncCausalFrames || stack.frames).slice(0, maxStepHistoryFrames);
+
+			let firstAsyncMarkerIndex = vmFrames.findIndex((f) => f.kind === "AsyncSuspensionMarker");
+			if (firstAsyncMarkerIndex === -1)
+				firstAsyncMarkerIndex = Infinity;
+			const hasAnyDebuggableFrames = !!vmFrames.find((f) => f.location?.script?.uri && this.getNonDebuggableFrameReason(f.location?.script?.uri) === undefined);
+
+			const frames = await Promise.all(vmFrames.map(async (vmFrame, i): Promise<PauseSnapshotFrame> => {
+				const frame = await this.convertStackFrame(thread, vmFrame, i === 0, hasAnyDebuggableFrames, firstAsyncMarkerIndex);
+				// Source references are only valid until the thread resumes, so drop any sources that
+				// could not be loaded from disk.
+				if (frame.source?.sourceReference)
+					frame.source = frame.source.path ? { ...frame.source, sourceReference: undefined } : undefined;
+				frame.canRestart = false;
+
+				const vars = (vmFrame.vars || []).filter((variable) => !variable.value || variable.value.type !== "@TypeArguments");
+				const locals = await Promise.all(vars.map((variable) => this.instanceRefToSnapshotVariable(thread, variable.name, variable.value)));
+				return { frame, locals };
+			}));
+
+			const exception = thread.pauseEvent?.exception
+				? await this.instanceRefToSnapshotVariable(thread, "$e", thread.pauseEvent.exception, exceptionText)
+				: undefined;
+
+			return { reason, exceptionText, exception, frames };
+		} catch (e) {
+			this.logger.error(e);
+			return undefined;
+		}
+	}
+
+	// Snapshots are read-only and their children cannot be fetched once resumed, so they are
+	// captured without evaluateNames or variablesReferences.
+	private async instanceRefToSnapshotVariable(thread: ThreadInfo, name: string, ref: VMInstanceRef | VMSentinel, value?: string): Promise<DebugProtocol.Variable> {
+		const variable = await this.instanceRefToVariable(thread, false, name, name, ref, false);
+		return { name: variable.name, type: variable.type, value: value ?? variable.value, variablesReference: 0 };
+	}
+
 	protected async handleInspectEvent(event: VMEvent): Promise<void> {
 		const isolateRef = event.isolate;
 		const instanceRef = (event as any).inspectee as VMInstanceRef;
@@ -1957,23 +2556,45 @@ export class DartDebugSession extends DebugSession {
 		return text;
 	}
 
-	private async anyBreakpointConditionReturnsTrue(breakpoints: Array<DebugProtocol.SourceBreakpoint & { condition: string }>, thread: ThreadInfo) {
+	private async anyBreakpointConditionReturnsTrue(breakpoints: Array<BreakpointOptions & { condition: string }>, thread: ThreadInfo) {
 		for (const bp of breakpoints) {
-			const evalResult = await this.evaluateAndSendErrors(thread, bp.condition);
-			if (evalResult) {
-				// To be considered true, we need to have a value and either be not-a-bool
-				const breakpointconditionEvaluatesToTrue =
-					(evalResult.kind === "Bool" && evalResult.valueAsString === "true")
-					|| (evalResult.kind === "Int" && evalResult.valueAsString !== "0")
-					|| (evalResult.kind === "Double" && evalResult.valueAsString !== "0");
-				if (breakpointconditionEvaluatesToTrue)
-					return true;
+			if (await this.breakpointConditionReturnsTrue(bp.condition, thread))
+				return true;
+		}
+		return false;
+	}
 
-			}
+	private async breakpointConditionReturnsTrue(condition: string, thread: ThreadInfo): Promise<boolean> {
+		const evalResult = await this.evaluateAndSendErrors(thread, condition);
+		if (evalResult) {
+			// To be considered true, we need to have a value and either be not-a-bool
+			const breakpointconditionEvaluatesToTrue =
+				(evalResult.kind === "Bool" && evalResult.valueAsString === "true")
+				|| (evalResult.kind === "Int" && evalResult.valueAsString !== "0")
+				|| (evalResult.kind === "Double" && evalResult.valueAsString !== "0");
+			return breakpointconditionEvaluatesToTrue;
 		}
 		return false;
 	}
 
+	/// Increments the hit counts of breakpoints (only counting hits where any condition is true) and
+	/// returns those whose hitCondition is satisfied by the new count.
+	private async breakpointsPassingHitConditions(breakpoints: Array<BreakpointWithId & { hitCondition: string }>, thread: ThreadInfo): Promise<BreakpointWithId[]> {
+		const passed: BreakpointWithId[] = [];
+		for (const bp of breakpoints) {
+			if (bp.condition && !await this.breakpointConditionReturnsTrue(bp.condition, thread))
+				continue;
+
+			const hitCount = thread.incrementHitCount(bp.id);
+			const hitConditionIsTrue = parseHitCondition(bp.hitCondition);
+			if (!hitConditionIsTrue)
+				this.logToUser(`Invalid hit condition "${bp.hitCondition}"\n`, "stderr");
+			else if (hitConditionIsTrue(hitCount))
+				passed.push(bp);
+		}
+		return passed;
+	}
+
 	private callService(type: string, args: any): Promise<any> {
 		if (!this.vmService)
 			throw new Error("VM service connection is not available");
@@ -2106,9 +2727,12 @@ export class DartDebugSession extends DebugSession {
 				? await this.fullValueAsString(thread.ref, val)
 				: this.valueAsString(val);
 
+			const isTypedData = typedDataKindPattern.test(val.kind) || val.class.name === "ByteData" || val.class.name === "_ByteDataView";
+
 			return {
 				evaluateName: canEvaluate ? evaluateName : undefined,
 				indexedVariables: (val && val.kind && val.kind.endsWith("List") ? val.length : undefined),
+				memoryReference: isTypedData ? thread.storeData(new TypedDataMemory(val)).toString() : undefined,
 				name,
 				type: `${val.kind} (${val.class.name})`,
 				value: str || "",
@@ -2148,6 +2772,22 @@ export class DartDebugSession extends DebugSession {
 			|| path.indexOf("\\third_party\\") !== -1;
 	}
 
+	/// Writes the collected coverage to an LCOV file and sends it to the editor to display. Returns the
+	/// path of the LCOV file.
+	private writeCoverage(): string {
+		// Don't default to coverage/lcov.info, as that's where `flutter test --coverage` writes.
+		const lcovFile = path.resolve(this.cwd || process.cwd(), this.coverageFile || path.join("coverage", "debug.lcov.info"));
+		try {
+			this.coverageCollector.writeLcov(lcovFile);
+		} catch (e) {
+			this.logToUser(`Failed to write coverage to ${lcovFile}: ${e}\n`, "stderr");
+		}
+		const evt = new Event("dart.coverage", { lcovFile, coverage: this.coverageCollector.lineCoverage });
+		this.logDapEvent(evt);
+		this.sendEvent(evt);
+		return lcovFile;
+	}
+
 	private resolveFileLocation(script: VMScript, tokenPos: number): FileLocation | undefined {
 		const table: number[][] = script.tokenPosTable;
 		for (const entry of table) {
@@ -2292,3 +2932,35 @@ class InspectedVariable {
 	get type() { return InspectedVariable.type; }
 	constructor(public readonly variablesReference: number) { }
 }
+
+class HistoricalFrame {
+	public static readonly type = "HistoricalFrame";
+	get type() { return HistoricalFrame.type; }
+	constructor(public readonly snapshot: PauseSnapshot, public readonly frame: PauseSnapshotFrame) { }
+}
+
+class HistoricalVariables {
+	public static readonly type = "HistoricalVariables";
+	get type() { return HistoricalVariables.type; }
+	constructor(public readonly variables: DebugProtocol.Variable[]) { }
+}
+
+class StaticFieldsScope {
+	public static readonly type = "StaticFieldsScope";
+	get type() { return StaticFieldsScope.type; }
+	constructor(public readonly classRef: VMClassRef) { }
+}
+
+class GlobalsScope {
+	public static readonly type = "GlobalsScope";
+	get type() { return GlobalsScope.type; }
+	constructor(public readonly libraryRef: VMLibraryRef) { }
+}
+
+class TypedDataMemory {
+	public static readonly type = "TypedDataMemory";
+	get type() { return TypedDataMemory.type; }
+	// A Uint8List view over the same bytes, created on the first read.
+	public byteView?: VMInstanceRef;
+	constructor(public readonly instance: VMInstanceRef) { }
+}
@@ -170,12 +170,20 @@ export interface VMInstance extends VMObj {
 	elements?: any[];
 	// The elements of a Map instance. Provided for instance kinds: Map.
 	associations?: VMMapAssociation[];
+	// The bytes of a TypedData instance, encoded as a base64 string. Provided for instance kinds: TypedData.
+	bytes?: string;
 }
 
 export interface VMClass extends VMObj {
 	name: string;
+	// The library which contains this class.
+	library: VMLibraryRef;
+	// A list of fields in this class. Does not include fields from superclasses.
+	fields: VMFieldRef[];
 	functions: VMFunctionRef[];
 	super?: VMClassRef;
+	// A list of interface types (Type instances) implemented by this class.
+	interfaces?: VMTypeRef[];
 }
 
 export interface VMBoundField {
@@ -193,6 +201,18 @@ export interface VMFieldRef extends VMObjectRef {
 	name: string;
 	// The owner of this field, which can be either a Library or a Class.
 	owner: VMObjectRef;
+	// Is this field const?
+	const: boolean;
+	// Is this field final?
+	final: boolean;
+	// Is this field static?
+	static: boolean;
+}
+
+export interface VMField extends VMObj, VMFieldRef {
+	// The value of this field, if the field is static. If uninitialized,
+	// this will take the value of an uninitialized Sentinel.
+	staticValue?: VMInstanceRef | VMSentinel;
 }
 
 export interface VMLibraryRef extends VMObjectRef {
@@ -203,8 +223,18 @@ export interface VMLibraryRef extends VMObjectRef {
 }
 
 export interface VMLibrary extends VMObj {
+	// The name of this library.
+	name: string;
+	// The uri of this library.
+	uri: string;
 	// A list of the scripts which constitute this library.
 	scripts: VMScriptRef[];
+	// A list of the top-level variables in this library.
+	variables: VMFieldRef[];
+	// A list of the top-level functions in this library.
+	functions: VMFuncRef[];
+	// A list of all classes in this library.
+	classes: VMClassRef[];
 }
 
 export interface VMFuncRef extends VMObjectRef {
@@ -215,6 +245,13 @@ export interface VMFuncRef extends VMObjectRef {
 	isStatic: boolean;
 	// Is this function const?
 	isConst: boolean;
+	// The location of this function in the source (only available in newer VMs).
+	location?: VMSourceLocation;
+}
+
+export interface VMFunc extends VMObj, VMFuncRef {
+	// The location of this function in the source.
+	location?: VMSourceLocation;
 }
 
 export interface VMBoundVariable {
@@ -266,10 +303,14 @@ export interface VMInstanceRef extends VMObjectRef {
 	valueAsString?: string;
 	valueAsStringIsTruncated?: boolean;
 	length?: number;
+	// The identityHashCode assigned to the instance (only available in newer VMs).
+	identityHashCode?: number;
 }
 
 export interface VMTypeRef extends VMInstanceRef {
 	name: string;
+	// The class of this type. Provided for instance kinds: Type.
+	typeClass?: VMClassRef;
 }
 
 export interface VMErrorRef extends VMObjectRef {
@@ -281,6 +322,8 @@ export interface VMErrorRef extends VMObjectRef {
 
 export interface VMClassRef extends VMObjectRef {
 	name: string;
+	// The library which contains this class (only available in newer VMs).
+	library?: VMLibraryRef;
 }
 
 export interface VMFunctionRef extends VMObjectRef {
@@ -324,6 +367,70 @@ export interface VMWriteEvent extends VMEvent {
 	bytes?: string;
 }
 
+export interface VMAllocationProfile extends VMResponse {
+	// Allocation information for all class types.
+	members: VMClassHeapStats[];
+}
+
+export interface VMClassHeapStats extends VMResponse {
+	// The class for which this memory information is associated.
+	class: VMClassRef;
+	// The number of bytes allocated for instances of class since the accumulator was last reset.
+	accumulatedSize: number;
+	// The number of bytes currently allocated for instances of class.
+	bytesCurrent: number;
+	// The number of instances of class which have been allocated since the accumulator was last reset.
+	instancesAccumulated: number;
+	// The number of instances of class which are currently alive.
+	instancesCurrent: number;
+}
+
+export interface VMInstanceSet extends VMResponse {
+	// The number of instances of the requested type currently allocated.
+	totalCount: number;
+	// An array of instances of the requested type.
+	instances: VMInstanceRef[];
+}
+
+export interface VMCpuSamples extends VMResponse {
+	// The sampling rate for the profiler in microseconds.
+	samplePeriod: number;
+	// The number of samples returned.
+	sampleCount: number;
+	// A list of functions seen in the relevant samples. These references can be looked up using the
+	// indices provided in a CpuSample stack to determine which function was on the stack.
+	functions: VMProfileFunction[];
+	// A list of samples collected in the range.
+	samples: VMCpuSample[];
+}
+
+export interface VMProfileFunction {
+	// The kind of function this object represents (for example "Dart", "Native", "Stub").
+	kind: string;
+	// The number of times function appeared on the stack during sampling events.
+	inclusiveTicks: number;
+	// The number of times function appeared on the top of the stack during sampling events.
+	exclusiveTicks: number;
+	// The resolved URL for the script containing function.
+	resolvedUrl: string;
+	// The function captured during profiling (a FuncRef, or a NativeFunction that has only a name).
+	function: VMFuncRef | { type: "NativeFunction", name: string };
+}
+
+export interface VMCpuSample {
+	// The timestamp in microseconds since the VM started.
+	timestamp: number;
+	// The call stack at the time this sample was collected as indices into functions, with the
+	// top of the stack first.
+	stack: number[];
+	// Whether the call stack was truncated.
+	truncated?: boolean;
+}
+
+export interface VMScriptList extends VMResponse {
+	scripts: VMScriptRef[];
+}
+
 export interface VMSourceReport extends VMResponse {
 	// A list of ranges in the program source.  These ranges correspond
 	// to ranges of executable code in the user's program (functions,
@@ -367,6 +474,10 @@ export interface VMSourceReportRange {
 	// PossibleBreakpoint report has been requested and the range has been
 	// compiled.
 	possibleBreakpoints?: number[];
+
+	// CPU profile information for this range. Provided only when the (private) Profile report
+	// has been requested and the range has samples.
+	profile?: VMSourceReportProfile;
 }
 
 export interface VMSourceReportCoverage {
@@ -379,9 +490,20 @@ export interface VMSourceReportCoverage {
 	misses: number[];
 }
 
+export interface VMSourceReportProfile {
+	// Token positions that have samples. Positions without source are reported as strings
+	// (such as "ControlFlow" or "NoSource").
+	positions: Array<number | string>;
+	// The number of samples at each position where it was at the top of the stack.
+	exclusiveTicks: number[];
+	// The number of samples at each position where it was anywhere on the stack.
+	inclusiveTicks: number[];
+}
+
 export enum SourceReportKind {
 	Coverage,
 	PossibleBreakpoints,
+	Profile,
 }
 
 export class RPCError {
@@ -456,6 +578,10 @@ export class VmServiceConnection {
 		return this.callMethod("addBreakpointWithScriptUri", data);
 	}
 
+	public addBreakpointAtEntry(isolateId: string, functionId: string): Promise<DebuggerResult> {
+		return this.callMethod("addBreakpointAtEntry", { isolateId, functionId });
+	}
+
 	// None, Unhandled, and All
 	public setExceptionPauseMode(isolateId: string, mode: string): Promise<DebuggerResult> {
 		return this.callMethod("setExceptionPauseMode", { isolateId, mode });
@@ -480,8 +606,10 @@ export class VmServiceConnection {
 
 	// TODO: Make these strongly-typed - DebuggerResult -> SourceReport? DebuggerResult<SourceReport>?
 	// Do we need DebuggerResult?
-	public getSourceReport(isolate: VMIsolateRef, reports: SourceReportKind[], script: VMScriptRef): Promise<DebuggerResult> {
-		return this.callMethod("getSourceReport", { isolateId: isolate.id, reports: reports.map((r) => SourceReportKind[r]), scriptId: script.id });
+	public getSourceReport(isolate: VMIsolateRef, reports: SourceReportKind[], script: VMScriptRef, forceCompile?: boolean): Promise<DebuggerResult> {
+		// The profile report is private, so has a leading underscore.
+		const reportNames = reports.map((r) => r === SourceReportKind.Profile ? "_Profile" : SourceReportKind[r]);
+		return this.callMethod("getSourceReport", { isolateId: isolate.id, reports: reportNames, scriptId: script.id, forceCompile });
 	}
 
 	public getObject(isolateId: string, objectId: string, offset?: number, count?: number): Promise<DebuggerResult> {
@@ -523,6 +651,30 @@ export class VmServiceConnection {
 		});
 	}
 
+	public clearCpuSamples(isolateId: string): Promise<DebuggerResult> {
+		return this.callMethod("clearCpuSamples", { isolateId });
+	}
+
+	public getCpuSamples(isolateId: string, timeOriginMicros: number, timeExtentMicros: number): Promise<DebuggerResult> {
+		return this.callMethod("getCpuSamples", { isolateId, timeOriginMicros, timeExtentMicros });
+	}
+
+	public setFlag(name: string, value: string): Promise<DebuggerResult> {
+		return this.callMethod("setFlag", { name, value });
+	}
+
+	public getScripts(isolateId: string): Promise<DebuggerResult> {
+		return this.callMethod("getScripts", { isolateId });
+	}
+
+	public getAllocationProfile(isolateId: string, gc?: boolean): Promise<DebuggerResult> {
+		return this.callMethod("getAllocationProfile", { isolateId, gc });
+	}
+
+	public getInstances(isolateId: string, objectId: string, limit: number): Promise<DebuggerResult> {
+		return this.callMethod("getInstances", { isolateId, objectId, limit });
+	}
+
 	public setLibraryDebuggable(isolateId: string, libraryId: string, isDebuggable: boolean): Promise<DebuggerResult> {
 		return this.callMethod("setLibraryDebuggable", { isolateId, libraryId, isDebuggable });
 	}
@@ -5,6 +5,7 @@ import { dartVMPath, debugTerminatingProgressId, pubSnapshotPath, vmServiceHttpL
 import { DartLaunchArgs } from "../shared/debug/interfaces";
 import { LogCategory } from "../shared/enums";
 import { Logger, SpawnedProcess } from "../shared/interfaces";
+import { formatShardProgress, makeShardIDsUnique, ShardProgress } from "../shared/test/shards";
 import { ErrorNotification, GroupNotification, PrintNotification, SuiteNotification, Test, TestDoneNotification, TestStartNotification } from "../shared/test_protocol";
 import { DartDebugSession } from "./dart_debug_impl";
 import { DebugAdapterLogger } from "./logging";
@@ -12,9 +13,20 @@ import { TestRunner } from "./test_runner";
 
 const tick = "✓";
 const cross = "✖";
+const testShardsProgressId = "testShards";
+// Sending a progress update for every test in a large run is excessive.
+const shardProgressUpdateIntervalMs = 500;
+
+interface ShardInfo {
+	index: number;
+	total: number;
+}
 
 export class DartTestDebugSession extends DartDebugSession {
 	private expectSingleTest: boolean | undefined = false;
+	private readonly additionalShardProcesses: SpawnedProcess[] = [];
+	private readonly shardProgress: ShardProgress[] = [];
+	private lastShardProgressUpdate = 0;
 
 	constructor() {
 		super();
@@ -63,20 +75,63 @@ export class DartTestDebugSession extends DartDebugSession {
 		appArgs = appArgs.concat(["-r", "json"]);
 		appArgs.push("-j1"); // Only run single-threaded in the runner.
 
+		let testArgs: string[] = [];
 		if (args.toolArgs)
-			appArgs = appArgs.concat(args.toolArgs);
+			testArgs = testArgs.concat(args.toolArgs);
 
 		if (args.program)
-			appArgs.push(this.sourceFileForArgs(args));
+			testArgs.push(this.sourceFileForArgs(args));
 
 		if (args.args)
-			appArgs = appArgs.concat(args.args);
+			testArgs = testArgs.concat(args.args);
 
 		const logger = new DebugAdapterLogger(this, LogCategory.PubTest);
-		return this.createRunner(dartPath, args.cwd, appArgs, args.env, args.pubTestLogFile, logger, args.maxLogLineLength);
+		const totalShards = this.getShardCount(args);
+		if (totalShards <= 1)
+			return this.createRunner(dartPath, args.cwd, appArgs.concat(testArgs), args.env, args.pubTestLogFile, logger, args.maxLogLineLength);
+
+		this.startProgress(testShardsProgressId, `Running tests in ${totalShards} shards`);
+		const processes: SpawnedProcess[] = [];
+		for (let index = 0; index < totalShards; index++) {
+			this.shardProgress.push({ failed: 0, isDone: false, passed: 0 });
+			const shardArgs = ["--total-shards", totalShards.toString(), "--shard-index", index.toString()];
+			const logFile = args.pubTestLogFile ? `${args.pubTestLogFile}.shard${index}` : undefined;
+			processes.push(this.createRunner(dartPath, args.cwd, appArgs.concat(shardArgs, testArgs), args.env, logFile, logger, args.maxLogLineLength, { index, total: totalShards }));
+		}
+
+		// The first shard is treated as the main process, and the others are tracked so that
+		// they are terminated with the session and the session does not end until they exit.
+		const [mainProcess, ...otherProcesses] = processes;
+		for (const process of otherProcesses) {
+			this.additionalShardProcesses.push(process);
+			if (process.pid)
+				this.recordAdditionalPid(process.pid);
+			process.stderr.on("data", (data) => this.logToUserBuffered(data.toString(), "stderr"));
+		}
+		return mainProcess;
+	}
+
+	private getShardCount(args: DartLaunchArgs): number {
+		const shards = args.shards ?? 1;
+		// Each runner would need its own VM Service connection, which the debug adapter does not support.
+		if (shards > 1 && this.shouldConnectDebugger) {
+			this.logToUser(`Tests cannot be sharded when debugging so will run in a single process. Run without debugging to use ${shards} shards.\n`, "console");
+			return 1;
+		}
+		return Math.max(1, Math.floor(shards));
+	}
+
+	protected async waitForProcessExit(process: SpawnedProcess): Promise<{ code: number | null, signal: string | null }> {
+		if (!this.additionalShardProcesses.length)
+			return super.waitForProcessExit(process);
+
+		const exits = await Promise.all([process, ...this.additionalShardProcesses].map((p) => super.waitForProcessExit(p)));
+		this.endProgress(testShardsProgressId);
+		// If any shard failed, the run failed.
+		return exits.find((e) => e.code || e.signal) ?? exits[0];
 	}
 
-	protected createRunner(executable: string, projectFolder: string | undefined, args: string[], envOverrides: { [key: string]: string | undefined } | undefined, logFile: string | undefined, logger: Logger, maxLogLineLength: number) {
+	protected createRunner(executable: string, projectFolder: string | undefined, args: string[], envOverrides: { [key: string]: string | undefined } | undefined, logFile: string | undefined, logger: Logger, maxLogLineLength: number, shard?: ShardInfo) {
 		const runner = new TestRunner(executable, projectFolder, args, { envOverrides, toolEnv: this.toolEnv }, logFile, logger, maxLogLineLength);
 
 		// Set up subscriptions.
@@ -99,6 +154,10 @@ export class DartTestDebugSession extends DartDebugSession {
 				this.initDebugger(`${n.observatoryUri}ws`);
 		});
 		runner.registerForAllTestNotifications(async (n) => {
+			if (shard) {
+				makeShardIDsUnique(n, shard.index, shard.total);
+				this.recordShardProgress(shard.index, n);
+			}
 			try {
 				await this.handleTestEvent(n);
 			} catch (e) {
@@ -116,6 +175,29 @@ export class DartTestDebugSession extends DartDebugSession {
 		return runner.process!;
 	}
 
+	private recordShardProgress(shardIndex: number, notification: any) {
+		const progress = this.shardProgress[shardIndex];
+		if (notification.type === "testDone") {
+			const testDone = notification as TestDoneNotification;
+			if (testDone.hidden || testDone.skipped)
+				return;
+			if (testDone.result === "success")
+				progress.passed++;
+			else
+				progress.failed++;
+		} else if (notification.type === "done") {
+			progress.isDone = true;
+		} else {
+			return;
+		}
+
+		const now = Date.now();
+		if (progress.isDone || now - this.lastShardProgressUpdate >= shardProgressUpdateIntervalMs) {
+			this.lastShardProgressUpdate = now;
+			this.updateProgress(testShardsProgressId, formatShardProgress(this.shardProgress));
+		}
+	}
+
 	protected logToUserIfAppropriate(message: string, category?: string) {
 		// Filter out these messages taht come to stdout that we don't want to send to the user.
 		if (message && message.startsWith("Observatory listening on"))
@@ -217,7 +299,8 @@ export class DartTestDebugSession extends DartDebugSession {
 		if (suitePath) {
 			this.sendEvent(new Event(
 				"dart.testRunNotification",
-				{ suitePath, notification },
+				// Sharded runs report the same groups from each shard, which the editor needs to merge.
+				{ isSharded: this.shardProgress.length > 0, notification, suitePath },
 			));
 		}
 	}
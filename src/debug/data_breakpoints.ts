@@ -0,0 +1,203 @@
+import { OutputEvent } from "vscode-debugadapter";
+import { DebugProtocol } from "vscode-debugprotocol";
+import { Logger } from "../shared/interfaces";
+import { errorString } from "../shared/utils";
+import { DartDebugSession } from "./dart_debug_impl";
+import { VMField, VMInstance, VMInstanceRef, VMSentinel } from "./dart_debug_protocol";
+import { ThreadManager } from "./threads";
+
+// How frequently to check watched values for changes while isolates are running.
+const pollIntervalMs = 250;
+
+/// Identifies a field to watch. Encoded as JSON into the DAP `dataId`.
+export interface DataBreakpointTarget {
+	isolateId: string;
+	/// The instance that owns the field, or the ID of the field itself for static fields.
+	///
+	/// Instance IDs are temporary (they are allocated from a ring buffer in the VM and expire once
+	/// enough other objects have been sent), so this is replaced with the newly-allocated ID each time
+	/// the instance is read to keep the reference alive.
+	objectId: string;
+	/// The name of the field on the instance, or undefined for static fields.
+	fieldName?: string;
+	description: string;
+}
+
+interface WatchedField {
+	target: DataBreakpointTarget;
+	lastValue: string | undefined;
+}
+
+/// Emulates data breakpoints ("Break when value changes"), since the VM has no support for
+/// field watchpoints.
+///
+/// Watched values are checked each time an isolate pauses (so stepping will stop precisely
+/// at the change) and are polled while isolates are running, pausing the isolate shortly
+/// after a change is detected.
+export class DataBreakpointManager {
+	private watches: WatchedField[] = [];
+	private pollTimer?: NodeJS.Timer;
+	private isPolling = false;
+	private readonly pendingPauses = new Set<string>();
+
+	constructor(private readonly logger: Logger, private readonly debugSession: DartDebugSession, private readonly threadManager: ThreadManager) { }
+
+	public static encodeDataId(target: DataBreakpointTarget): string {
+		return JSON.stringify(target);
+	}
+
+	public async setDataBreakpoints(breakpoints: DebugProtocol.DataBreakpoint[]): Promise<DebugProtocol.Breakpoint[]> {
+		this.watches = [];
+		const results = await Promise.all(breakpoints.map(async (bp) => {
+			let target: DataBreakpointTarget;
+			try {
+				target = JSON.parse(bp.dataId) as DataBreakpointTarget;
+			} catch (e) {
+				return { verified: false, message: `Invalid data breakpoint` };
+			}
+
+			try {
+				const value = await this.readValue(target);
+				this.watches.push({ target, lastValue: value });
+				return { verified: true, message: target.description };
+			} catch (e) {
+				return { verified: false, message: errorString(e) };
+			}
+		}));
+
+		this.updatePolling();
+		return results;
+	}
+
+	/// Checks whether any values watched in the isolate have changed since they were last
+	/// checked. Returns descriptions of the fields that changed, and whether the pause was
+	/// requested by polling (in which case it should be resumed if nothing changed).
+	public async checkForChanges(isolateId: string): Promise<{ changed: string[], wasPausedByPolling: boolean }> {
+		const wasPausedByPolling = this.pendingPauses.delete(isolateId);
+		const changed: string[] = [];
+		for (const watch of this.watches.filter((w) => w.target.isolateId === isolateId)) {
+			try {
+				const value = await this.readValue(watch.target);
+				if (value !== watch.lastValue) {
+					watch.lastValue = value;
+					changed.push(watch.target.description);
+				}
+			} catch (e) {
+				this.removeWatch(watch, e);
+			}
+		}
+		return { changed, wasPausedByPolling };
+	}
+
+	/// Called when the user pauses an isolate, so a pause requested by polling at the same time
+	/// isn't mistaken for one that can be silently resumed.
+	public handleUserPause(isolateId: string) {
+		this.pendingPauses.delete(isolateId);
+	}
+
+	public handleIsolateExit(isolateId: string) {
+		this.watches = this.watches.filter((w) => w.target.isolateId !== isolateId);
+		this.pendingPauses.delete(isolateId);
+		this.updatePolling();
+	}
+
+	public dispose() {
+		this.watches = [];
+		this.updatePolling();
+	}
+
+	private removeWatch(watch: WatchedField, reason: any) {
+		this.logger.info(`Removing data breakpoint for ${watch.target.description}: ${errorString(reason)}`);
+		this.debugSession.sendEvent(new OutputEvent(`Data breakpoint for ${watch.target.description} was removed: ${errorString(reason)}\n`, "console"));
+		this.watches = this.watches.filter((w) => w !== watch);
+		this.updatePolling();
+	}
+
+	private updatePolling() {
+		if (this.watches.length && !this.pollTimer) {
+			this.pollTimer = setInterval(() => this.poll(), pollIntervalMs);
+			this.pollTimer.unref();
+		} else if (!this.watches.length && this.pollTimer) {
+			clearInterval(this.pollTimer);
+			this.pollTimer = undefined;
+		}
+	}
+
+	private async poll(): Promise<void> {
+		// Don't start another poll if the previous one is still in progress (for example because
+		// the VM is slow to respond).
+		if (this.isPolling)
+			return;
+		this.isPolling = true;
+		try {
+			for (const watch of this.watches) {
+				const isolateId = watch.target.isolateId;
+				const thread = this.threadManager.threads.find((t) => t.ref.id === isolateId);
+				// Paused isolates are checked when they pause, so only running isolates need polling.
+				if (!thread || thread.paused || this.pendingPauses.has(isolateId))
+					continue;
+
+				let value: string | undefined;
+				try {
+					value = await this.readValue(watch.target);
+				} catch (e) {
+					this.removeWatch(watch, e);
+					continue;
+				}
+
+				// Don't update lastValue here, as the pause handler will call checkForChanges to
+				// find out which field(s) changed.
+				if (value !== watch.lastValue && this.debugSession.vmService) {
+					this.pendingPauses.add(isolateId);
+					await this.debugSession.vmService.pause(isolateId);
+				}
+			}
+		} catch (e) {
+			this.logger.error(e);
+		} finally {
+			this.isPolling = false;
+		}
+	}
+
+	/// Reads a value that can be compared to determine if a field has changed.
+	private async readValue(target: DataBreakpointTarget): Promise<string | undefined> {
+		const vmService = this.debugSession.vmService;
+		if (!vmService)
+			throw new Error("VM service connection is not available");
+
+		const result = await vmService.getObject(target.isolateId, target.objectId);
+		if (result.result.type === "Sentinel")
+			throw new Error(`${target.description} is no longer available (${(result.result as VMSentinel).valueAsString})`);
+
+		let value: VMInstanceRef | VMSentinel | undefined;
+		if (target.fieldName) {
+			const instance = result.result as VMInstance;
+			if (instance.id)
+				target.objectId = instance.id;
+			value = instance.fields?.find((f) => f.decl.name === target.fieldName)?.value;
+			if (!value)
+				throw new Error(`${target.description} is not a field`);
+		} else {
+			value = (result.result as VMField).staticValue;
+		}
+
+		if (!value)
+			return undefined;
+		if (value.type === "Sentinel")
+			return `Sentinel:${(value as VMSentinel).valueAsString}`;
+
+		// Simple values are compared by value, since the VM may give the same value different IDs. Other
+		// instances are compared by identity (not ID, since IDs are not stable between reads).
+		const instanceRef = value as VMInstanceRef;
+		if (instanceRef.valueAsString !== undefined) {
+			// Long strings are truncated in references, so fetch the full value to compare.
+			const valueAsString = instanceRef.valueAsStringIsTruncated
+				? ((await vmService.getObject(target.isolateId, instanceRef.id)).result as VMInstance).valueAsString
+				: instanceRef.valueAsString;
+			return `${instanceRef.kind}:${valueAsString}`;
+		}
+		if (instanceRef.identityHashCode === undefined)
+			throw new Error(`${target.description} cannot be watched because the VM does not provide the identity of its value`);
+		return `${instanceRef.kind}#${instanceRef.identityHashCode}`;
+	}
+}
@@ -6,7 +6,7 @@ import { DartLaunchArgs } from "../shared/debug/interfaces";
 import { LogCategory, VmServiceExtension } from "../shared/enums";
 import { AppProgress } from "../shared/flutter/daemon_interfaces";
 import { DiagnosticsNode, DiagnosticsNodeLevel, DiagnosticsNodeStyle, DiagnosticsNodeType, FlutterErrorData } from "../shared/flutter/structured_errors";
-import { Logger, SpawnedProcess, WidgetErrorInspectData } from "../shared/interfaces";
+import { Logger, ReloadCompletedEvent, SpawnedProcess, WidgetErrorInspectData } from "../shared/interfaces";
 import { isWebDevice } from "../shared/utils";
 import { DartDebugSession } from "./dart_debug_impl";
 import { VMEvent } from "./dart_debug_protocol";
@@ -257,7 +257,8 @@ export class FlutterDebugSession extends DartDebugSession {
 		super.restartRequest(response, args);
 	}
 
-	private async performReload(hotRestart: boolean, args?: { reason: string, debounce?: boolean }): Promise<any> {
+	/// Performs a hot reload or restart, returning an error message if it failed.
+	private async performReload(hotRestart: boolean, args?: { reason: string, debounce?: boolean }): Promise<string | undefined> {
 		if (!this.appHasStarted || !this.currentRunningAppId || !this.runDaemon)
 			return;
 
@@ -268,13 +269,23 @@ export class FlutterDebugSession extends DartDebugSession {
 
 		this.isReloadInProgress = true;
 		const restartType = hotRestart ? "hot-restart" : "hot-reload";
+		const startTime = Date.now();
+		let error: string | undefined;
 		try {
-			await this.runDaemon.restart(this.currentRunningAppId, !this.noDebug, hotRestart, args);
+			const result = await this.runDaemon.restart(this.currentRunningAppId, !this.noDebug, hotRestart, args);
+			// The daemon reports failures (such as compile errors) with a non-zero code rather than an error.
+			if (result?.code)
+				error = result.message || `${restartType} failed with code ${result.code}`;
 		} catch (e) {
 			this.sendEvent(new OutputEvent(`Error running ${restartType}: ${e}\n`, "stderr"));
+			error = `${e}`;
 		} finally {
 			this.isReloadInProgress = false;
 		}
+
+		const completed: ReloadCompletedEvent = { durationMs: Date.now() - startTime, error, hotRestart, reason: args?.reason };
+		this.sendEvent(new Event("dart.flutter.reloadCompleted", completed));
+		return error;
 	}
 
 	protected async customRequest(request: string, response: DebugProtocol.Response, args: any): Promise<void> {
@@ -312,13 +323,13 @@ export class FlutterDebugSession extends DartDebugSession {
 
 				case "hotReload":
 					if (this.currentRunningAppId)
-						await this.performReload(false, args);
+						response.body = { error: await this.performReload(false, args) };
 					this.sendResponse(response);
 					break;
 
 				case "hotRestart":
 					if (this.currentRunningAppId)
-						await this.performReload(true, args);
+						response.body = { error: await this.performReload(true, args) };
 					this.sendResponse(response);
 					break;
 
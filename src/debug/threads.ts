@@ -1,16 +1,22 @@
-import { Thread, ThreadEvent } from "vscode-debugadapter";
+import { BreakpointEvent, Thread, ThreadEvent } from "vscode-debugadapter";
 import { DebugProtocol } from "vscode-debugprotocol";
 import { LogCategory } from "../shared/enums";
 import { Logger } from "../shared/interfaces";
 import { errorString, PromiseCompleter } from "../shared/utils";
 import { DartDebugSession, InstanceWithEvaluateName, VmExceptionMode } from "./dart_debug_impl";
-import { DebuggerResult, VMBreakpoint, VMEvent, VMIsolate, VMIsolateRef, VMLibraryRef, VMResponse, VMScript, VMScriptRef } from "./dart_debug_protocol";
+import { DebuggerResult, VMBreakpoint, VMClass, VMEvent, VMIsolate, VMIsolateRef, VMLibrary, VMLibraryRef, VMObjectRef, VMResponse, VMScript, VMScriptRef } from "./dart_debug_protocol";
+import { parseFunctionBreakpointName } from "./utils";
 
 export class ThreadManager {
 	public nextThreadId: number = 0;
 
 	public threads: ThreadInfo[] = [];
 	public bps: { [uri: string]: DebugProtocol.SourceBreakpoint[] } = {};
+	public functionBps: DebugProtocol.FunctionBreakpoint[] = [];
+	private functionBpIds: number[] = [];
+	private nextFunctionBpId = 1;
+	// The number of pauses to record per thread for stepping back through. 0 disables recording.
+	public stepHistorySize = 0;
 	private hasConfigurationDone = false;
 	private exceptionMode: VmExceptionMode = "Unhandled";
 
@@ -131,13 +137,58 @@ export class ThreadManager {
 
 	// Just resends existing breakpoints
 	public async resetBreakpoints(): Promise<void> {
-		const promises = [];
+		const promises: Array<Promise<any>> = [];
 		for (const uri of Object.keys(this.bps)) {
 			promises.push(this.setBreakpoints(uri, this.bps[uri]));
 		}
+		promises.push(this.updateFunctionBreakpoints());
 		await Promise.all(promises);
 	}
 
+	public async setFunctionBreakpoints(breakpoints: DebugProtocol.FunctionBreakpoint[]): Promise<DebugProtocol.Breakpoint[]> {
+		// Remember these bps for when new threads start.
+		this.functionBps = breakpoints;
+		this.functionBpIds = breakpoints.map(() => this.nextFunctionBpId++);
+
+		// Names can't be resolved until there's a runnable isolate, so until then treat the breakpoints
+		// as verified (like source breakpoints) and send their real state once they've been resolved.
+		if (!this.threads.find((thread) => thread.runnable))
+			return this.functionBpIds.map((id) => ({ id, verified: true }));
+
+		return this.resolveFunctionBreakpoints();
+	}
+
+	/// Re-resolves function breakpoints in all isolates and updates their verified state. This is
+	/// called when isolates become runnable or are reloaded, since either may add the functions. The
+	/// VM service has no event for libraries being loaded any other way (such as deferred libraries),
+	/// so breakpoints in those are not re-resolved until the next reload.
+	public async updateFunctionBreakpoints(): Promise<void> {
+		if (!this.functionBps.length)
+			return;
+
+		const ids = this.functionBpIds;
+		const breakpoints = await this.resolveFunctionBreakpoints();
+		// Skip the update if the breakpoints were replaced while resolving.
+		if (ids !== this.functionBpIds)
+			return;
+		for (const bp of breakpoints)
+			this.debugSession.sendEvent(new BreakpointEvent("changed", bp));
+	}
+
+	private async resolveFunctionBreakpoints(): Promise<DebugProtocol.Breakpoint[]> {
+		const breakpoints = this.functionBps;
+		const ids = this.functionBpIds;
+
+		// Functions may only exist in some isolates, so a breakpoint is considered verified
+		// if it resolved in any of them.
+		const results = await Promise.all(this.threads
+			.filter((thread) => thread.runnable)
+			.map((thread) => thread.setFunctionBreakpoints(this.logger, breakpoints)));
+		return breakpoints.map((bp, i) => results.find((r) => !!r[i])
+			? { id: ids[i], verified: true }
+			: { id: ids[i], message: `Unable to find a function named ${bp.name}`, verified: false });
+	}
+
 	public setBreakpoints(uri: string, breakpoints: DebugProtocol.SourceBreakpoint[]): Promise<any[]> {
 		// Remember these bps for when new threads start.
 		if (breakpoints.length === 0)
@@ -214,12 +265,23 @@ export class ThreadInfo {
 	public scriptCompleters: { [key: string]: PromiseCompleter<VMScript> } = {};
 	public runnable: boolean = false;
 	public vmBps: { [uri: string]: VMBreakpoint[] } = {};
+	public vmFunctionBps: VMBreakpoint[] = [];
 	// TODO: Do we need both sets of breakpoints?
-	public breakpoints: { [key: string]: DebugProtocol.SourceBreakpoint } = {};
+	public breakpoints: { [key: string]: BreakpointOptions } = {};
+	// The number of times each breakpoint (by VM breakpoint ID) has been hit, for evaluating hitConditions.
+	private hitCounts: { [key: string]: number } = {};
 	public atAsyncSuspension: boolean = false;
 	public exceptionReference = 0;
 	public paused: boolean = false;
 	public pauseEvent: VMEvent | undefined;
+	// Snapshots of previous pauses (oldest first) recorded when step history is enabled.
+	public stepHistory: PauseSnapshot[] = [];
+	// The snapshot for the current (live) pause, if one was recorded.
+	public currentPauseSnapshot: PauseSnapshot | undefined;
+	// The index into stepHistory that is being viewed, or undefined if viewing the live pause.
+	private stepHistoryIndex: number | undefined;
+	private pendingPauseSnapshot: Promise<void> = Promise.resolve();
+	private pendingFunctionBreakpoints: Promise<unknown> = Promise.resolve();
 
 	constructor(
 		public readonly manager: ThreadManager,
@@ -241,11 +303,34 @@ export class ThreadInfo {
 		return Promise.all(removeBreakpointPromises);
 	}
 
+	private removeFunctionBreakpoints(): Promise<any> {
+		const removeBreakpointPromises = [];
+		if (this.manager.debugSession.vmService) {
+			for (const bp of this.vmFunctionBps) {
+				removeBreakpointPromises.push(this.manager.debugSession.vmService.removeBreakpoint(this.ref.id, bp.id));
+			}
+		}
+		for (const bp of this.vmFunctionBps)
+			delete this.breakpoints[bp.id];
+		this.vmFunctionBps = [];
+		return Promise.all(removeBreakpointPromises);
+	}
+
+	public incrementHitCount(breakpointId: string): number {
+		this.hitCounts[breakpointId] = (this.hitCounts[breakpointId] || 0) + 1;
+		return this.hitCounts[breakpointId];
+	}
+
+	public resetHitCounts() {
+		this.hitCounts = {};
+	}
+
 	public removeAllBreakpoints(): Promise<any> {
 		const removeBreakpointPromises = [];
 		for (const uri of Object.keys(this.vmBps)) {
 			removeBreakpointPromises.push(this.removeBreakpointsAtUri(uri));
 		}
+		removeBreakpointPromises.push(this.removeFunctionBreakpoints());
 		return Promise.all(removeBreakpointPromises);
 	}
 
@@ -273,6 +358,85 @@ export class ThreadInfo {
 		);
 	}
 
+	public setFunctionBreakpoints(logger: Logger, breakpoints: DebugProtocol.FunctionBreakpoint[]): Promise<Array<VMBreakpoint | undefined>> {
+		// Wait for any previous call to finish adding its breakpoints, otherwise they would not be removed.
+		const result = this.pendingFunctionBreakpoints.then(() => this.replaceFunctionBreakpoints(logger, breakpoints));
+		this.pendingFunctionBreakpoints = result.catch(() => undefined);
+		return result;
+	}
+
+	private async replaceFunctionBreakpoints(logger: Logger, breakpoints: DebugProtocol.FunctionBreakpoint[]): Promise<Array<VMBreakpoint | undefined>> {
+		// Remove all current bps.
+		await this.removeFunctionBreakpoints();
+
+		// Libraries are shared between all breakpoints, so only fetch each once.
+		const libraries: { [id: string]: Promise<VMLibrary | undefined> } = {};
+		const getLibrary = (libraryRef: VMLibraryRef) => {
+			if (!(libraryRef.id in libraries)) {
+				libraries[libraryRef.id] = this.manager.debugSession.vmService!.getObject(this.ref.id, libraryRef.id)
+					.then((result) => result.result.type === "Library" ? result.result as VMLibrary : undefined)
+					.catch(() => undefined);
+			}
+			return libraries[libraryRef.id];
+		};
+
+		return Promise.all(
+			breakpoints.map(async (bp) => {
+				try {
+					if (!this.manager.debugSession.vmService)
+						return undefined;
+
+					const func = await this.resolveFunction(bp.name, getLibrary);
+					if (!func)
+						return undefined;
+
+					const result = await this.manager.debugSession.vmService.addBreakpointAtEntry(this.ref.id, func.id);
+					const vmBp: VMBreakpoint = (result.result as VMBreakpoint);
+					this.vmFunctionBps.push(vmBp);
+					this.breakpoints[vmBp.id] = bp;
+					return vmBp;
+				} catch (e) {
+					logger.error(e, LogCategory.VmService);
+					return undefined;
+				}
+			}),
+		);
+	}
+
+	/// Resolves a name like `MyClass.method` or `package:foo/foo.dart::function` to a function
+	/// in this isolate.
+	private async resolveFunction(name: string, getLibrary: (libraryRef: VMLibraryRef) => Promise<VMLibrary | undefined>): Promise<VMObjectRef | undefined> {
+		const vmService = this.manager.debugSession.vmService;
+		if (!vmService)
+			return undefined;
+
+		const { libraryUri, className, functionName } = parseFunctionBreakpointName(name);
+		const isolate = (await vmService.getIsolate(this.ref.id)).result as VMIsolate;
+
+		// If no library was given, search only the users libraries (and packages) and not the SDK,
+		// checking the root library first.
+		const candidateLibraries = (isolate.libraries || []).filter((l) => libraryUri ? l.uri === libraryUri : !l.uri.startsWith("dart:"));
+		const rootLibIndex = candidateLibraries.findIndex((l) => l.id === isolate.rootLib?.id);
+		if (rootLibIndex > 0)
+			candidateLibraries.unshift(...candidateLibraries.splice(rootLibIndex, 1));
+
+		const matches = await Promise.all(candidateLibraries.map(async (libraryRef) => {
+			const library = await getLibrary(libraryRef);
+			if (!library)
+				return undefined;
+			if (!className)
+				return library.functions?.find((f) => f.name === functionName);
+
+			const classRef = library.classes?.find((c) => c.name === className);
+			if (!classRef)
+				return undefined;
+			const cls = (await vmService.getObject(this.ref.id, classRef.id)).result as VMClass;
+			return cls.functions?.find((f) => f.name === functionName);
+		}));
+
+		return matches.find((m) => !!m);
+	}
+
 	private gotPauseStart = false;
 	private initialBreakpoints = false;
 	private hasConfigurationDone = false;
@@ -307,6 +471,8 @@ export class ThreadInfo {
 		this.exceptionReference = 0;
 		this.paused = false;
 		this.pauseEvent = undefined;
+		this.currentPauseSnapshot = undefined;
+		this.stepHistoryIndex = undefined;
 	}
 
 	public async resume(step?: string, frameIndex?: number): Promise<void> {
@@ -347,6 +513,68 @@ export class ThreadInfo {
 		}
 	}
 
+	public recordPauseSnapshot(snapshot: Promise<PauseSnapshot | undefined>) {
+		const pauseEvent = this.pauseEvent;
+		this.pendingPauseSnapshot = this.pendingPauseSnapshot.then(async () => {
+			const result = await snapshot;
+			if (!result)
+				return;
+			this.stepHistory.push(result);
+			// Only treat this as the live pause if we haven't resumed while it was being captured.
+			if (this.pauseEvent === pauseEvent)
+				this.currentPauseSnapshot = result;
+			const excess = this.stepHistory.length - this.manager.stepHistorySize;
+			if (excess > 0)
+				this.stepHistory.splice(0, excess);
+		});
+	}
+
+	/// The recorded snapshot being viewed, or undefined if the live pause is being viewed.
+	public get viewingStepHistory(): PauseSnapshot | undefined {
+		return this.stepHistoryIndex !== undefined ? this.stepHistory[this.stepHistoryIndex] : undefined;
+	}
+
+	public get stepHistoryPosition(): { index: number, count: number } | undefined {
+		return this.stepHistoryIndex !== undefined ? { index: this.stepHistoryIndex, count: this.stepHistory.length } : undefined;
+	}
+
+	/// Moves through the recorded pauses. Returns false if there was nowhere to move to.
+	public async moveThroughStepHistory(direction: "back" | "forward" | "oldest" | "live"): Promise<boolean> {
+		// Ensure any snapshot for the current pause has been recorded before we try to navigate.
+		await this.pendingPauseSnapshot;
+
+		// The live pause is usually the last entry, but if it failed to record, then we treat
+		// it as being just beyond the end of the list.
+		const liveIndex = this.currentPauseSnapshot ? this.stepHistory.indexOf(this.currentPauseSnapshot) : -1;
+		const currentIndex = this.stepHistoryIndex ?? (liveIndex !== -1 ? liveIndex : this.stepHistory.length);
+
+		let newIndex: number | undefined;
+		switch (direction) {
+			case "back":
+				newIndex = currentIndex - 1;
+				break;
+			case "forward":
+				newIndex = currentIndex + 1;
+				break;
+			case "oldest":
+				newIndex = 0;
+				break;
+			case "live":
+				newIndex = undefined;
+				break;
+		}
+
+		if (newIndex !== undefined && (newIndex >= this.stepHistory.length || newIndex === liveIndex))
+			newIndex = undefined;
+		if (newIndex !== undefined && newIndex < 0)
+			return false;
+		if (newIndex === this.stepHistoryIndex)
+			return false;
+
+		this.stepHistoryIndex = newIndex;
+		return true;
+	}
+
 	public storeData(data: VMResponse): number {
 		return this.manager.storeData(this, data);
 	}
@@ -366,3 +594,21 @@ export class ThreadInfo {
 export interface StorableData {
 	type: string;
 }
+
+/// The options for a breakpoint (source or function) that are handled by the debug adapter
+/// rather than the VM.
+export type BreakpointOptions = Pick<DebugProtocol.SourceBreakpoint, "condition" | "hitCondition" | "logMessage">;
+
+/// A read-only snapshot of a thread's state at a pause, used for stepping back through
+/// previous pauses.
+export interface PauseSnapshot {
+	reason: string;
+	exceptionText: string | undefined;
+	exception: DebugProtocol.Variable | undefined;
+	frames: PauseSnapshotFrame[];
+}
+
+export interface PauseSnapshotFrame {
+	frame: DebugProtocol.StackFrame;
+	locals: DebugProtocol.Variable[];
+}
@@ -1,4 +1,5 @@
 import { forceWindowsDriveLetterToUppercase } from "../shared/utils/fs";
+import { VMScript } from "./dart_debug_protocol";
 
 export function formatPathForVm(file: string): string {
 	// Handle drive letter inconsistencies.
@@ -19,3 +20,104 @@ export function formatPathForVm(file: string): string {
 	else
 		return `file:///${encodeURI(file)}`;
 }
+
+/// Builds a map from token positions to lines (1-based) from a scripts tokenPosTable, which is
+/// in the form [line, (tokenPos, column)*].
+export function getLinesForTokenPositions(script: VMScript): Map<number, { line: number, column: number }> {
+	const linesForTokenPos = new Map<number, { line: number, column: number }>();
+	for (const entry of script.tokenPosTable) {
+		for (let index = 1; index < entry.length; index += 2)
+			linesForTokenPos.set(entry[index], { line: entry[0], column: entry[index + 1] });
+	}
+	return linesForTokenPos;
+}
+
+/// Parses a breakpoint hitCondition like `5` (the 5th hit), `>= 10` or `% 3 == 0` into a function
+/// that returns whether the breakpoint should stop for a given hit count. Returns undefined if the
+/// hitCondition is not valid.
+export function parseHitCondition(hitCondition: string): ((hitCount: number) => boolean) | undefined {
+	const match = /^\s*(?:%\s*(\d+)\s*)?(?:(===?|!=|>=|<=|>|<)?\s*(\d+))?\s*$/.exec(hitCondition);
+	if (!match || (match[1] === undefined && match[3] === undefined))
+		return undefined;
+
+	const modulus = match[1] !== undefined ? parseInt(match[1], 10) : undefined;
+	// A modulus on its own (`% 3`) means every nth hit, and a number on its own means exactly that hit.
+	const operator = match[2] || "==";
+	const target = match[3] !== undefined ? parseInt(match[3], 10) : 0;
+	if (modulus === 0)
+		return undefined;
+
+	return (hitCount: number) => {
+		const value = modulus !== undefined ? hitCount % modulus : hitCount;
+		switch (operator) {
+			case "!=": return value !== target;
+			case ">=": return value >= target;
+			case "<=": return value <= target;
+			case ">": return value > target;
+			case "<": return value < target;
+			default: return value === target;
+		}
+	};
+}
+
+/// A parsed exception breakpoint filter condition like `StateError, package:my_app/, !package:my_app/generated/`.
+export interface ExceptionFilterCondition {
+	// Names of exception types (including supertypes and interfaces) to break on or ignore.
+	includeTypes: string[];
+	excludeTypes: string[];
+	// Prefixes of the URI of the library throwing the exception to break on or ignore.
+	includeLibraries: string[];
+	excludeLibraries: string[];
+}
+
+/// Parses an exception filter condition, which is a comma-separated list of exception type names and
+/// library URI prefixes (starting with `package:`, `dart:` or `file:`), each optionally prefixed with `!`
+/// to exclude matches.
+export function parseExceptionFilterCondition(condition: string): ExceptionFilterCondition {
+	const result: ExceptionFilterCondition = { includeTypes: [], excludeTypes: [], includeLibraries: [], excludeLibraries: [] };
+	for (let term of condition.split(",").map((t) => t.trim()).filter((t) => t)) {
+		const exclude = term.startsWith("!");
+		if (exclude)
+			term = term.substring(1).trim();
+		const isLibrary = /^(package|dart|file):/.test(term);
+		if (isLibrary)
+			(exclude ? result.excludeLibraries : result.includeLibraries).push(term);
+		else
+			(exclude ? result.excludeTypes : result.includeTypes).push(term);
+	}
+	return result;
+}
+
+/// Checks whether an exception (given the names of its type and all of its supertypes, and the URI of the
+/// library it was thrown from) should be broken on for a filter condition.
+///
+/// If any types or libraries are included, the exception must match at least one of each, and it must
+/// not match any that are excluded.
+export function exceptionFilterConditionMatches(condition: ExceptionFilterCondition, typeNames: string[], libraryUri: string | undefined): boolean {
+	const matchesLibrary = (prefix: string) => !!libraryUri && libraryUri.startsWith(prefix);
+	const matchesType = (name: string) => typeNames.indexOf(name) !== -1;
+
+	if (condition.includeTypes.length && !condition.includeTypes.find(matchesType))
+		return false;
+	if (condition.includeLibraries.length && !condition.includeLibraries.find(matchesLibrary))
+		return false;
+	return !condition.excludeTypes.find(matchesType) && !condition.excludeLibraries.find(matchesLibrary);
+}
+
+/// Splits a function breakpoint name like `package:foo/bar.dart::MyClass.method` into
+/// its library URI (optional), class name (optional) and function name.
+export function parseFunctionBreakpointName(name: string): { libraryUri?: string, className?: string, functionName: string } {
+	let libraryUri: string | undefined;
+	const librarySeparator = name.lastIndexOf("::");
+	if (librarySeparator !== -1) {
+		libraryUri = name.substring(0, librarySeparator).trim();
+		name = name.substring(librarySeparator + 2);
+	}
+	name = name.trim();
+
+	const classSeparator = name.indexOf(".");
+	if (classSeparator === -1)
+		return { libraryUri, functionName: name };
+	else
+		return { libraryUri, className: name.substring(0, classSeparator), functionName: name.substring(classSeparator + 1) };
+}
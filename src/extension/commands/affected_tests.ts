@@ -0,0 +1,171 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vs from "vscode";
+import { AnalysisGetLibraryDependenciesResponse } from "../../shared/analysis_server_types";
+import { Logger } from "../../shared/interfaces";
+import { PackageMap } from "../../shared/pub/package_map";
+import { disposeAll, flatMap, uniq } from "../../shared/utils";
+import { fsPath } from "../../shared/utils/fs";
+import { findDependentFiles, getDirectiveUris, resolveDirectiveUri, resolvePackageUriFromContextMaps } from "../../shared/utils/imports";
+import { getDartWorkspaceFolders } from "../../shared/vscode/utils";
+import { DasAnalyzerClient } from "../analysis/analyzer_das";
+import { getExcludedFolders, isPubRunnableTestFile, isTestFile, isWithinWorkspace } from "../utils";
+import { runToolProcess } from "../utils/processes";
+
+const workingTreeChoice = "Uncommitted changes";
+
+type ContextPackageMaps = AnalysisGetLibraryDependenciesResponse["packageMap"];
+
+export class AffectedTestsCommand implements vs.Disposable {
+	private disposables: vs.Disposable[] = [];
+
+	constructor(private readonly logger: Logger, private readonly dasClient: DasAnalyzerClient | undefined) {
+		this.disposables.push(vs.commands.registerCommand("dart.runTestsAffectedByChanges", () => this.runAffectedTests()));
+	}
+
+	private async runAffectedTests(): Promise<void> {
+		const repoFolders = uniq((await Promise.all(getDartWorkspaceFolders().map((wf) => this.getGitRoot(fsPath(wf.uri))))).filter((f): f is string => !!f));
+		if (!repoFolders.length) {
+			vs.window.showWarningMessage("Unable to find tests affected by changes because the workspace is not in a git repository.");
+			return;
+		}
+
+		const repoBranches = new Map(await Promise.all(repoFolders.map(async (repo) => [repo, await this.getBranches(repo)] as const)));
+		const base = await this.promptForBase(repoBranches);
+		if (base === undefined)
+			return;
+
+		const testFiles = await vs.window.withProgress(
+			{ location: vs.ProgressLocation.Window, title: "Finding tests affected by changes" },
+			async () => {
+				// Repos that don't have the selected branch only contribute their uncommitted changes.
+				const changedFiles = ([] as string[]).concat(...await Promise.all(repoFolders.map((repo) => {
+					const branch = repoBranches.get(repo)?.includes(base) ? base : "";
+					return this.getChangedFiles(repo, branch);
+				})));
+				const { files, contextPackageMaps } = await this.getDartFiles();
+				const packageMaps: { [packagesFile: string]: PackageMap } = {};
+				return findDependentFiles(changedFiles, files, (file) => this.getDependencies(file, contextPackageMaps, packageMaps))
+					.filter((file) => isTestFile(file) && isPubRunnableTestFile(file));
+			},
+		);
+
+		if (!testFiles.length) {
+			vs.window.showInformationMessage("No tests are affected by the changes.");
+			return;
+		}
+
+		await vs.commands.executeCommand("_dart.runTestSuites", testFiles.sort());
+	}
+
+	private async getBranches(repoFolder: string): Promise<string[]> {
+		const result = await runToolProcess(this.logger, repoFolder, "git", ["branch", "--all", "--format=%(refname:short)"]);
+		return result.exitCode === 0
+			? result.stdout.split("\n").map((b) => b.trim()).filter((b) => b && !b.endsWith("/HEAD"))
+			: [];
+	}
+
+	private async promptForBase(repoBranches: Map<string, string[]>): Promise<string | undefined> {
+		const repos = [...repoBranches.keys()];
+		const branches = uniq(flatMap(repos, (repo) => repoBranches.get(repo)!));
+		const items = [
+			{ label: workingTreeChoice, description: "Working tree compared to HEAD", base: "" },
+			...branches.map((branch) => {
+				// In multi-repo workspaces, call out branches that only exist in some of the repos.
+				const reposWithBranch = repos.filter((repo) => repoBranches.get(repo)!.includes(branch));
+				const description = reposWithBranch.length === repos.length
+					? "Working tree compared to where the current branch diverged"
+					: `Only in ${reposWithBranch.map((repo) => path.basename(repo)).join(", ")} (uncommitted changes for other repos)`;
+				return { label: `Changes since ${branch}`, description, base: branch };
+			}),
+		];
+		const selection = await vs.window.showQuickPick(items, { placeHolder: "Select which changes to run affected tests for" });
+		return selection?.base;
+	}
+
+	private async getGitRoot(folder: string): Promise<string | undefined> {
+		const result = await runToolProcess(this.logger, folder, "git", ["rev-parse", "--show-toplevel"]);
+		return result.exitCode === 0 ? path.normalize(result.stdout.trim()) : undefined;
+	}
+
+	/// Gets the files changed in the working tree compared to HEAD (or the merge base with
+	/// the given branch), including untracked files.
+	private async getChangedFiles(repoFolder: string, branch: string): Promise<string[]> {
+		let base = "HEAD";
+		if (branch) {
+			const mergeBase = await runToolProcess(this.logger, repoFolder, "git", ["merge-base", branch, "HEAD"]);
+			if (mergeBase.exitCode !== 0) {
+				this.logger.warn(`Unable to find merge base with ${branch} in ${repoFolder}: ${mergeBase.stderr}`);
+				return [];
+			}
+			base = mergeBase.stdout.trim();
+		}
+
+		const [changed, untracked] = await Promise.all([
+			runToolProcess(this.logger, repoFolder, "git", ["diff", "--name-only", base]),
+			runToolProcess(this.logger, repoFolder, "git", ["ls-files", "--others", "--exclude-standard"]),
+		]);
+		return [changed, untracked]
+			.filter((result) => result.exitCode === 0)
+			.map((result) => result.stdout.split("\n").map((f) => f.trim()).filter((f) => f))
+			.reduce((all, files) => all.concat(files), [])
+			.map((f) => path.join(repoFolder, f))
+			.filter((f) => f.endsWith(".dart"));
+	}
+
+	/// Gets the Dart libraries in the workspace and, if the analysis server is available, its
+	/// package maps.
+	///
+	/// The analysis server provides the analyzed libraries (but not parts, which are found through
+	/// the part directives of their libraries) and package maps, but not the imports between
+	/// libraries. The import graph is always built by reading the directives from each file.
+	/// Without the analysis server, the workspace is searched for Dart files instead.
+	private async getDartFiles(): Promise<{ files: string[], contextPackageMaps?: ContextPackageMaps }> {
+		if (this.dasClient) {
+			try {
+				const result = await this.dasClient.analysisGetLibraryDependencies();
+				const libraries = result.libraries.filter((file) => isWithinWorkspace(file));
+				if (libraries.length)
+					return { contextPackageMaps: result.packageMap, files: libraries };
+			} catch (e) {
+				this.logger.warn(`Failed to get library dependencies from analysis server: ${e}`);
+			}
+		}
+
+		const excludedFolders = flatMap(getDartWorkspaceFolders(), getExcludedFolders);
+		const files = await vs.workspace.findFiles("**/*.dart", "**/{.dart_tool,build}/**");
+		return {
+			files: files.map((uri) => fsPath(uri))
+				.filter((file) => !excludedFolders.some((folder) => file.startsWith(folder))),
+		};
+	}
+
+	private getDependencies(file: string, contextPackageMaps: ContextPackageMaps | undefined, packageMaps: { [packagesFile: string]: PackageMap }): string[] {
+		let contents: string;
+		try {
+			contents = fs.readFileSync(file).toString();
+		} catch {
+			return [];
+		}
+
+		// Prefer the analysis server's package maps, but read the package config for files
+		// outside of its context roots.
+		const resolvePackageUri = (packageUri: string) => {
+			const resolved = contextPackageMaps && resolvePackageUriFromContextMaps(packageUri, file, contextPackageMaps);
+			if (resolved)
+				return resolved;
+			const packagesFile = PackageMap.findPackagesFile(file);
+			const packageMap = packagesFile
+				? packageMaps[packagesFile] = packageMaps[packagesFile] ?? PackageMap.load(this.logger, packagesFile)
+				: undefined;
+			return packageMap?.resolvePackageUri(packageUri);
+		};
+		return getDirectiveUris(contents)
+			.map((uri) => resolveDirectiveUri(uri, file, resolvePackageUri))
+			.filter((dependency): dependency is string => !!dependency);
+	}
+
+	public dispose(): any {
+		disposeAll(this.disposables);
+	}
+}
@@ -4,7 +4,8 @@ import * as vs from "vscode";
 import { FlutterCapabilities } from "../../shared/capabilities/flutter";
 import { debugLaunchProgressId, debugTerminatingProgressId, devToolsPages, doNotAskAgainAction, isInFlutterDebugModeDebugSessionContext, isInFlutterProfileModeDebugSessionContext, widgetInspectorPage } from "../../shared/constants";
 import { DebuggerType, DebugOption, debugOptionNames, LogSeverity, VmServiceExtension } from "../../shared/enums";
-import { DartWorkspaceContext, DevToolsPage, Logger, LogMessage, WidgetErrorInspectData } from "../../shared/interfaces";
+import { getMultiSessionReloadMessage } from "../../shared/flutter/reload_report";
+import { DartWorkspaceContext, DevToolsPage, Logger, LogMessage, ReloadCompletedEvent, WidgetErrorInspectData } from "../../shared/interfaces";
 import { PromiseCompleter } from "../../shared/utils";
 import { fsPath } from "../../shared/utils/fs";
 import { showDevToolsNotificationIfAppropriate } from "../../shared/vscode/user_prompts";
@@ -52,6 +53,8 @@ export class DebugCommands {
 	public readonly onWillHotRestart = this.onWillHotRestartEmitter.event;
 	private onDebugSessionVmServiceAvailableEmitter = new vs.EventEmitter<DartDebugSessionInformation>();
 	public readonly onDebugSessionVmServiceAvailable = this.onDebugSessionVmServiceAvailableEmitter.event;
+	private onReloadCompletedEmitter = new vs.EventEmitter<{ session: DartDebugSessionInformation, reload: ReloadCompletedEvent }>();
+	public readonly onReloadCompleted = this.onReloadCompletedEmitter.event;
 	public readonly vmServices: VmServiceExtensions;
 	public readonly devTools: DevToolsManager;
 	private suppressFlutterWidgetErrors = false;
@@ -137,19 +140,19 @@ export class DebugCommands {
 
 		// Misc custom debug commands.
 		context.subscriptions.push(vs.commands.registerCommand("_flutter.hotReload.touchBar", (args: any) => vs.commands.executeCommand("flutter.hotReload", args)));
-		context.subscriptions.push(vs.commands.registerCommand("flutter.hotReload", (args?: any) => {
+		context.subscriptions.push(vs.commands.registerCommand("flutter.hotReload", async (args?: any) => {
 			if (!debugSessions.length)
 				return;
 			this.onWillHotReloadEmitter.fire();
-			debugSessions.forEach((s) => s.session.customRequest("hotReload", args));
 			analytics.logDebuggerHotReload();
+			await this.reloadAllSessions("hotReload", args);
 		}));
-		context.subscriptions.push(vs.commands.registerCommand("flutter.hotRestart", (args?: any) => {
+		context.subscriptions.push(vs.commands.registerCommand("flutter.hotRestart", async (args?: any) => {
 			if (!debugSessions.length)
 				return;
 			this.onWillHotRestartEmitter.fire();
-			debugSessions.forEach((s) => s.session.customRequest("hotRestart", args));
 			analytics.logDebuggerRestart();
+			await this.reloadAllSessions("hotRestart", args);
 		}));
 		context.subscriptions.push(vs.commands.registerCommand("dart.startDebugging", (resource: vs.Uri, launchTemplate: any | undefined) => {
 			const launchConfig = Object.assign(
@@ -345,7 +348,33 @@ export class DebugCommands {
 		}
 	}
 
-	private async getDebugSession(): Promise<DartDebugSessionInformation | undefined> {
+	/// Sends a hot reload/restart to all Flutter debug sessions (for example when the app is running on
+	/// multiple devices) and, if there are several, reports which of them failed.
+	private async reloadAllSessions(request: "hotReload" | "hotRestart", args?: any): Promise<void> {
+		// Other sessions (such as Dart scripts and tests) ignore reload requests so are not included.
+		const sessions = debugSessions.filter((s) => s.session.configuration.debuggerType === DebuggerType.Flutter || s.session.configuration.debuggerType === DebuggerType.Web);
+		const results = await Promise.all(sessions.map(async (s) => {
+			const sessionName: string = s.session.configuration.deviceName || s.session.name;
+			try {
+				const result = await s.session.customRequest(request, args);
+				return { error: result?.error as string | undefined, sessionName };
+			} catch (e) {
+				return { error: `${e}`, sessionName };
+			}
+		}));
+
+		// For a single session, any error has already been written to its Debug Console.
+		if (sessions.length < 2)
+			return;
+
+		const { isFailure, message } = getMultiSessionReloadMessage(request === "hotReload" ? "Hot reload" : "Hot restart", results);
+		if (isFailure)
+			vs.window.showWarningMessage(message);
+		else
+			vs.window.setStatusBarMessage(message, 3000);
+	}
+
+	public async getDebugSession(): Promise<DartDebugSessionInformation | undefined> {
 		if (debugSessions.length === 0) {
 			this.logger.info("No debug session to use!");
 			return undefined;
@@ -551,6 +580,8 @@ export class DebugCommands {
 					this.logger.error(`Failed to launch URL from Flutter app.webLaunchUrl event: ${e.body.url}`);
 				}
 			}
+		} else if (e.event === "dart.flutter.reloadCompleted") {
+			this.onReloadCompletedEmitter.fire({ session, reload: e.body });
 		} else if (e.event === "dart.exposeUrl") {
 			const originalUrl = e.body.url as string;
 			try {
@@ -0,0 +1,80 @@
+import * as vs from "vscode";
+import * as f from "../../shared/flutter/daemon_interfaces";
+import { Logger } from "../../shared/interfaces";
+import { disposeAll } from "../../shared/utils";
+import { FlutterDeviceManager } from "../../shared/vscode/device_manager";
+import { getDartWorkspaceFolders } from "../../shared/vscode/utils";
+
+/// Launches an app on several devices at once, grouping the sessions for the other devices under the first.
+export class MultiDeviceLaunchCommand implements vs.Disposable {
+	private disposables: vs.Disposable[] = [];
+	// Child sessions for each parent session, which are stopped along with it.
+	private readonly childSessions = new Map<string, vs.DebugSession[]>();
+
+	constructor(private readonly logger: Logger, private readonly deviceManager: FlutterDeviceManager) {
+		this.disposables.push(vs.commands.registerCommand("flutter.runOnMultipleDevices", (launchTemplate: any | undefined) => this.runOnMultipleDevices(launchTemplate)));
+		this.disposables.push(vs.debug.onDidTerminateDebugSession((session) => this.handleDebugSessionEnd(session)));
+	}
+
+	private async runOnMultipleDevices(launchTemplate: any | undefined): Promise<void> {
+		const devices = await this.deviceManager.showMultipleDevicePicker();
+		if (!devices?.length)
+			return;
+
+		const activeFile = vs.window.activeTextEditor?.document.uri;
+		const folder = (activeFile && vs.workspace.getWorkspaceFolder(activeFile)) || getDartWorkspaceFolders()[0];
+		const [firstDevice, ...otherDevices] = devices;
+		const parentSession = await this.startSession(folder, launchTemplate, firstDevice);
+		const children = await Promise.all(otherDevices.map((device) => this.startSession(folder, launchTemplate, device, parentSession)));
+		if (parentSession)
+			this.childSessions.set(parentSession.id, children.filter((s): s is vs.DebugSession => !!s));
+
+		const failedDevices = devices.filter((_, i) => !(i === 0 ? parentSession : children[i - 1])).map((d) => this.deviceManager.labelForDevice(d));
+		if (failedDevices.length)
+			vs.window.showErrorMessage(`Failed to start on ${failedDevices.join(", ")}.`);
+	}
+
+	private async startSession(folder: vs.WorkspaceFolder | undefined, launchTemplate: any | undefined, device: f.Device, parentSession?: vs.DebugSession): Promise<vs.DebugSession | undefined> {
+		const label = this.deviceManager.labelForDevice(device);
+		const debugConfig = {
+			request: "launch",
+			type: "dart",
+			...launchTemplate,
+			deviceId: device.id,
+			deviceName: `${label} (${device.platform})`,
+			name: `${launchTemplate?.name ?? "Flutter"} (${label})`,
+		};
+
+		let session: vs.DebugSession | undefined;
+		const subscription = vs.debug.onDidStartDebugSession((s) => {
+			if (s.configuration.name === debugConfig.name && s.configuration.deviceId === device.id)
+				session = s;
+		});
+		try {
+			// Restarting or stopping a child is handled by the parent (lifecycleManagedByParent is not in
+			// the VS Code API version we build against, but is passed through to newer versions).
+			const options = parentSession ? { lifecycleManagedByParent: true, parentSession } as vs.DebugSessionOptions : undefined;
+			const didStart = await vs.debug.startDebugging(folder, debugConfig, options);
+			return didStart ? session : undefined;
+		} catch (e) {
+			this.logger.error(`Failed to start debug session on ${device.id}: ${e}`);
+			return undefined;
+		} finally {
+			subscription.dispose();
+		}
+	}
+
+	private handleDebugSessionEnd(session: vs.DebugSession) {
+		const children = this.childSessions.get(session.id);
+		if (!children)
+			return;
+		this.childSessions.delete(session.id);
+		for (const child of children)
+			// tslint:disable-next-line: no-floating-promises
+			vs.debug.stopDebugging(child);
+	}
+
+	public dispose(): any {
+		disposeAll(this.disposables);
+	}
+}
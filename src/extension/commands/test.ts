@@ -8,7 +8,7 @@ import { escapeDartString, generateTestNameFromFileName } from "../../shared/uti
 import { fsPath, mkDirRecursive } from "../../shared/utils/fs";
 import { TestOutlineInfo, TestOutlineVisitor } from "../../shared/utils/outline_das";
 import { LspTestOutlineInfo, LspTestOutlineVisitor } from "../../shared/utils/outline_lsp";
-import { createTestFileAction, defaultTestFileContents, getLaunchConfig } from "../../shared/utils/test";
+import { createTestFileAction, defaultTestFileContents, getImplementationFileForTest, getLaunchConfig, getTestFileForImplementation } from "../../shared/utils/test";
 import { WorkspaceContext } from "../../shared/workspace";
 import { DasFileTracker } from "../analysis/file_tracker_das";
 import { LspFileTracker } from "../analysis/file_tracker_lsp";
@@ -74,8 +74,8 @@ abstract class TestCommands implements vs.Disposable {
 			const filePath = fsPath(doc.uri);
 			const isTest = isTestFile(filePath);
 			const otherFile = isTest
-				? this.getImplementationFileForTest(filePath)
-				: this.getTestFileForImplementation(filePath);
+				? getImplementationFileForTest(filePath)
+				: getTestFileForImplementation(filePath);
 
 			if (!otherFile || (isTest && !fs.existsSync(otherFile)))
 				return;
@@ -129,45 +129,16 @@ abstract class TestCommands implements vs.Disposable {
 			const filePath = fsPath(e.document.uri);
 			if (isTestFile(filePath)) {
 				// Implementation files must exist.
-				const implementationFilePath = this.getImplementationFileForTest(filePath);
+				const implementationFilePath = getImplementationFileForTest(filePath);
 				isInTestFileThatHasImplementation = !!implementationFilePath && fs.existsSync(implementationFilePath);
 			} else {
-				isInImplementationFileThatCanHaveTest = !!this.getTestFileForImplementation(filePath);
+				isInImplementationFileThatCanHaveTest = !!getTestFileForImplementation(filePath);
 			}
 		}
 
 		vs.commands.executeCommand("setContext", CAN_JUMP_BETWEEN_TEST_IMPLEMENTATION, isInTestFileThatHasImplementation || isInImplementationFileThatCanHaveTest);
 	}
 
-	private getImplementationFileForTest(filePath: string) {
-		const pathSegments = filePath.split(path.sep);
-
-		// Replace test folder with lib.
-		const testFolderIndex = pathSegments.lastIndexOf("test");
-		if (testFolderIndex !== -1)
-			pathSegments[testFolderIndex] = "lib";
-
-		// Remove _test from the filename.
-		pathSegments[pathSegments.length - 1] = pathSegments[pathSegments.length - 1].replace(/_test\.dart/, ".dart");
-
-		return pathSegments.join(path.sep);
-	}
-
-	private getTestFileForImplementation(filePath: string) {
-		const pathSegments = filePath.split(path.sep);
-
-		// Replace lib folder with test.
-		const libFolderIndex = pathSegments.lastIndexOf("lib");
-		if (libFolderIndex === -1)
-			return undefined;
-		pathSegments[libFolderIndex] = "test";
-
-		// Add _test to the filename.
-		pathSegments[pathSegments.length - 1] = pathSegments[pathSegments.length - 1].replace(/\.dart/, "_test.dart");
-
-		return pathSegments.join(path.sep);
-	}
-
 	protected abstract testForCursor(editor: vs.TextEditor): TestOutlineInfo | undefined;
 
 	public dispose(): any {
@@ -0,0 +1,106 @@
+import * as fs from "fs";
+import * as vs from "vscode";
+import { Logger } from "../../shared/interfaces";
+import { disposeAll } from "../../shared/utils";
+import { fsPath } from "../../shared/utils/fs";
+import { getTestFileForImplementation } from "../../shared/utils/test";
+import { isDartDocument } from "../editors";
+import { isPubRunnableTestFile, isTestFile } from "../utils";
+import { TestResultsProvider } from "../views/test_view";
+
+const IS_TEST_WATCH_MODE_ENABLED = "dart-code:isTestWatchModeEnabled";
+// Saving several files at once (or with format-on-save) fires multiple events, so wait for them to settle.
+const watchDebounceMs = 500;
+
+/// Re-runs the tests for Dart files as they are saved while watch mode is enabled.
+export class TestWatchMode implements vs.Disposable {
+	private readonly disposables: vs.Disposable[] = [];
+	private readonly statusBarItem = vs.window.createStatusBarItem("dartStatusTestWatchMode", vs.StatusBarAlignment.Left, 1);
+	private saveSubscription: vs.Disposable | undefined;
+	private pendingSuites = new Set<string>();
+	private debounceTimer: NodeJS.Timer | undefined;
+	private currentRun: vs.CancellationTokenSource | undefined;
+
+	constructor(private readonly logger: Logger, private readonly testTreeProvider: TestResultsProvider) {
+		this.statusBarItem.name = "Dart Test Watch Mode";
+		this.statusBarItem.text = "$(eye) Test Watch";
+		this.statusBarItem.tooltip = "Tests are re-run when Dart files are saved. Click to stop.";
+		this.statusBarItem.command = "dart.stopTestWatchMode";
+		this.disposables.push(this.statusBarItem);
+
+		this.disposables.push(vs.commands.registerCommand("dart.startTestWatchMode", () => this.start()));
+		this.disposables.push(vs.commands.registerCommand("dart.stopTestWatchMode", () => this.stop()));
+		vs.commands.executeCommand("setContext", IS_TEST_WATCH_MODE_ENABLED, false);
+	}
+
+	private start() {
+		if (this.saveSubscription)
+			return;
+		this.saveSubscription = vs.workspace.onDidSaveTextDocument((doc) => this.handleSave(doc));
+		this.statusBarItem.show();
+		vs.commands.executeCommand("setContext", IS_TEST_WATCH_MODE_ENABLED, true);
+	}
+
+	private stop() {
+		this.saveSubscription?.dispose();
+		this.saveSubscription = undefined;
+		this.cancelPendingRuns();
+		this.statusBarItem.hide();
+		vs.commands.executeCommand("setContext", IS_TEST_WATCH_MODE_ENABLED, false);
+	}
+
+	private handleSave(doc: vs.TextDocument) {
+		if (!isDartDocument(doc))
+			return;
+
+		const suitePath = this.getSuiteForFile(fsPath(doc.uri));
+		if (!suitePath)
+			return;
+
+		this.pendingSuites.add(suitePath);
+		if (this.debounceTimer)
+			clearTimeout(this.debounceTimer);
+		this.debounceTimer = setTimeout(() => this.runPendingSuites(), watchDebounceMs);
+	}
+
+	/// Gets the test file to run for a saved file, which is either the file itself (if it's a test)
+	/// or its corresponding test file using the same mapping as Go to Test/Implementation File.
+	private getSuiteForFile(filePath: string): string | undefined {
+		const testFile = isTestFile(filePath) ? filePath : getTestFileForImplementation(filePath);
+		return testFile && isPubRunnableTestFile(testFile) && fs.existsSync(testFile) ? testFile : undefined;
+	}
+
+	private async runPendingSuites(): Promise<void> {
+		this.debounceTimer = undefined;
+		const suitePaths = [...this.pendingSuites];
+		this.pendingSuites.clear();
+
+		// Only the results for the latest save are interesting, so stop anything still running.
+		this.currentRun?.cancel();
+		const run = this.currentRun = new vs.CancellationTokenSource();
+		this.logger.info(`Test watch mode running ${suitePaths.join(", ")}`);
+		try {
+			await this.testTreeProvider.runSuites(suitePaths, run.token);
+		} catch (e) {
+			this.logger.error(`Test watch mode failed to run tests: ${e}`);
+		} finally {
+			run.dispose();
+			if (this.currentRun === run)
+				this.currentRun = undefined;
+		}
+	}
+
+	private cancelPendingRuns() {
+		if (this.debounceTimer)
+			clearTimeout(this.debounceTimer);
+		this.debounceTimer = undefined;
+		this.pendingSuites.clear();
+		this.currentRun?.cancel();
+		this.currentRun = undefined;
+	}
+
+	public dispose(): any {
+		this.stop();
+		disposeAll(this.disposables);
+	}
+}
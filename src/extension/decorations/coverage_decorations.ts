@@ -0,0 +1,88 @@
+import * as vs from "vscode";
+import { LineCoverage } from "../../shared/debug/interfaces";
+import { disposeAll } from "../../shared/utils";
+import { fsPath } from "../../shared/utils/fs";
+import { DebugCommands } from "../commands/debug";
+
+export class CoverageDecorations implements vs.Disposable {
+	private subscriptions: vs.Disposable[] = [];
+	// The most recent coverage received from a debug session, keyed by file path.
+	private coverage: { [filePath: string]: LineCoverage } = {};
+
+	private readonly coveredDecorationType = vs.window.createTextEditorDecorationType({
+		borderColor: new vs.ThemeColor("dart.coveredLineForeground"),
+		borderStyle: "solid",
+		borderWidth: "0 0 0 3px",
+		isWholeLine: true,
+		overviewRulerColor: new vs.ThemeColor("dart.coveredLineForeground"),
+		overviewRulerLane: vs.OverviewRulerLane.Left,
+	});
+
+	private readonly uncoveredDecorationType = vs.window.createTextEditorDecorationType({
+		borderColor: new vs.ThemeColor("dart.uncoveredLineForeground"),
+		borderStyle: "solid",
+		borderWidth: "0 0 0 3px",
+		isWholeLine: true,
+		overviewRulerColor: new vs.ThemeColor("dart.uncoveredLineForeground"),
+		overviewRulerLane: vs.OverviewRulerLane.Left,
+	});
+
+	constructor(private readonly debugCommands: DebugCommands) {
+		this.subscriptions.push(vs.debug.onDidReceiveDebugSessionCustomEvent((e) => {
+			if (e.event === "dart.coverage") {
+				this.coverage = e.body.coverage;
+				this.update();
+			}
+		}));
+		this.subscriptions.push(vs.window.onDidChangeVisibleTextEditors(() => this.update()));
+		this.subscriptions.push(vs.commands.registerCommand("dart.collectCoverage", () => this.collectCoverage()));
+		this.subscriptions.push(vs.commands.registerCommand("dart.clearCoverage", () => {
+			this.coverage = {};
+			this.update();
+		}));
+	}
+
+	private async collectCoverage(): Promise<void> {
+		const session = await this.debugCommands.getDebugSession();
+		if (!session)
+			return;
+		if (session.session.configuration.noDebug) {
+			vs.window.showInformationMessage("You must start your app with debugging to collect coverage.");
+			return;
+		}
+
+		try {
+			// The debug adapter will send a dart.coverage event with the results.
+			const result: { lcovFile: string } = await session.session.customRequest("collectCoverage");
+			vs.window.setStatusBarMessage(`Coverage written to ${result.lcovFile}`, 5000);
+		} catch (e) {
+			vs.window.showErrorMessage(`Unable to collect coverage: ${e}`);
+		}
+	}
+
+	private update() {
+		for (const editor of vs.window.visibleTextEditors) {
+			const lines = this.coverage[fsPath(editor.document.uri)];
+			const covered: vs.Range[] = [];
+			const uncovered: vs.Range[] = [];
+			for (const line of Object.keys(lines || {}).map((l) => parseInt(l, 10))) {
+				// Coverage lines are 1-based.
+				if (line < 1 || line > editor.document.lineCount)
+					continue;
+				const range = editor.document.lineAt(line - 1).range;
+				if (lines[line] > 0)
+					covered.push(range);
+				else
+					uncovered.push(range);
+			}
+			editor.setDecorations(this.coveredDecorationType, covered);
+			editor.setDecorations(this.uncoveredDecorationType, uncovered);
+		}
+	}
+
+	public dispose() {
+		this.coverage = {};
+		this.update();
+		disposeAll(this.subscriptions);
+	}
+}
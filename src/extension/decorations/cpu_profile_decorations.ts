@@ -0,0 +1,70 @@
+import * as vs from "vscode";
+import { CpuProfile } from "../../shared/debug/interfaces";
+import { disposeAll } from "../../shared/utils";
+import { fsPath } from "../../shared/utils/fs";
+import { CpuProfileProvider, formatPercent } from "../views/cpu_profile_view";
+
+// Lines with less than this fraction of total samples are not annotated to avoid noise.
+const minimumFractionToAnnotate = 0.01;
+
+export class CpuProfileDecorations implements vs.Disposable {
+	private subscriptions: vs.Disposable[] = [];
+	private profile: CpuProfile | undefined;
+
+	private readonly hotLineDecorationType = vs.window.createTextEditorDecorationType({
+		after: {
+			color: new vs.ThemeColor("dart.hotLineForeground"),
+			margin: "0 0 0 2em",
+		},
+		overviewRulerColor: new vs.ThemeColor("dart.hotLineForeground"),
+		overviewRulerLane: vs.OverviewRulerLane.Right,
+		rangeBehavior: vs.DecorationRangeBehavior.ClosedOpen,
+	});
+
+	constructor(provider: CpuProfileProvider) {
+		this.subscriptions.push(provider.onDidChangeProfile((profile) => {
+			this.profile = profile;
+			this.update();
+		}));
+		this.subscriptions.push(vs.window.onDidChangeVisibleTextEditors(() => this.update()));
+	}
+
+	private update() {
+		const totalSamples = this.profile?.samples.length ?? 0;
+		for (const editor of vs.window.visibleTextEditors) {
+			const lineTicks = totalSamples ? this.profile!.lineTicks[fsPath(editor.document.uri)] : undefined;
+
+			const decorations: vs.DecorationOptions[] = [];
+			for (const line of Object.keys(lineTicks ?? {}).map((l) => parseInt(l, 10))) {
+				const ticks = lineTicks![line];
+				// Profile lines are 1-based.
+				if (ticks.totalTicks / totalSamples < minimumFractionToAnnotate || line < 1 || line > editor.document.lineCount)
+					continue;
+				const textLine = editor.document.lineAt(line - 1);
+				decorations.push({
+					hoverMessage: this.getHoverMessage(ticks, totalSamples),
+					range: new vs.Range(textLine.range.end, textLine.range.end),
+					renderOptions: {
+						after: {
+							contentText: `${formatPercent(ticks.selfTicks, totalSamples)} self, ${formatPercent(ticks.totalTicks, totalSamples)} total`,
+						},
+					},
+				});
+			}
+			editor.setDecorations(this.hotLineDecorationType, decorations);
+		}
+	}
+
+	private getHoverMessage(ticks: { selfTicks: number, totalTicks: number }, totalSamples: number): vs.MarkdownString {
+		const message = new vs.MarkdownString();
+		message.appendMarkdown(`${ticks.selfTicks} of ${totalSamples} CPU samples were on this line, `);
+		message.appendMarkdown(`${ticks.totalTicks} included it on the stack.`);
+		return message;
+	}
+
+	public dispose() {
+		this.profile = undefined;
+		this.update();
+		disposeAll(this.subscriptions);
+	}
+}
@@ -0,0 +1,77 @@
+import * as vs from "vscode";
+import { formatDuration, getDurationRegression } from "../../shared/test/durations";
+import { TestTreeModel } from "../../shared/test/test_model";
+import { disposeAll } from "../../shared/utils";
+import { fsPath } from "../../shared/utils/fs";
+import { config } from "../config";
+
+/// Adds a warning to the end of lines declaring tests whose most recent duration has regressed
+/// beyond the configured threshold compared to their historical median.
+export class TestDurationDecorations implements vs.Disposable {
+	private subscriptions: vs.Disposable[] = [];
+	private updateTimer: NodeJS.Timer | undefined;
+
+	private readonly regressionDecorationType = vs.window.createTextEditorDecorationType({
+		after: {
+			color: new vs.ThemeColor("editorWarning.foreground"),
+			margin: "0 0 0 2em",
+		},
+		overviewRulerColor: new vs.ThemeColor("editorWarning.foreground"),
+		overviewRulerLane: vs.OverviewRulerLane.Right,
+		rangeBehavior: vs.DecorationRangeBehavior.ClosedOpen,
+	});
+
+	constructor(private readonly data: TestTreeModel) {
+		// The model fires for every individual node change during a run, so batch them up.
+		this.subscriptions.push(data.onDidChangeTreeData.listen(() => this.scheduleUpdate()));
+		this.subscriptions.push(vs.window.onDidChangeVisibleTextEditors(() => this.update()));
+		this.subscriptions.push(vs.workspace.onDidChangeConfiguration((e) => {
+			if (e.affectsConfiguration("dart.testDurationRegressionThreshold"))
+				this.update();
+		}));
+		this.update();
+	}
+
+	private scheduleUpdate() {
+		if (this.updateTimer)
+			return;
+		this.updateTimer = setTimeout(() => {
+			this.updateTimer = undefined;
+			this.update();
+		}, 500);
+	}
+
+	private update() {
+		const threshold = config.testDurationRegressionThreshold;
+		for (const editor of vs.window.visibleTextEditors) {
+			const suite = this.data.suites[fsPath(editor.document.uri)];
+			const decorations: vs.DecorationOptions[] = [];
+			for (const test of suite?.getAllTests() || []) {
+				// Test lines are 1-based.
+				if (!test.line || test.line < 1 || test.line > editor.document.lineCount || test.path !== suite.path)
+					continue;
+				const regression = getDurationRegression(test, threshold);
+				if (!regression)
+					continue;
+				const line = editor.document.lineAt(test.line - 1);
+				decorations.push({
+					hoverMessage: `This test took ${formatDuration(regression.duration)} in its last run, ${Math.round(regression.increasePercent)}% more than its median of ${formatDuration(regression.median)}.`,
+					range: new vs.Range(line.range.end, line.range.end),
+					renderOptions: {
+						after: {
+							contentText: `⚠ ${formatDuration(regression.duration)} (median ${formatDuration(regression.median)})`,
+						},
+					},
+				});
+			}
+			editor.setDecorations(this.regressionDecorationType, decorations);
+		}
+	}
+
+	public dispose() {
+		if (this.updateTimer)
+			clearTimeout(this.updateTimer);
+		disposeAll(this.subscriptions);
+		this.regressionDecorationType.dispose();
+	}
+}
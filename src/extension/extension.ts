@@ -35,6 +35,7 @@ import { MainCodeLensProvider } from "./code_lens/main_code_lens_provider";
 import { LspMainCodeLensProvider } from "./code_lens/main_code_lens_provider_lsp";
 import { TestCodeLensProvider } from "./code_lens/test_code_lens_provider";
 import { LspTestCodeLensProvider } from "./code_lens/test_code_lens_provider_lsp";
+import { AffectedTestsCommand } from "./commands/affected_tests";
 import { AnalyzerCommands } from "./commands/analyzer";
 import { getOutputChannel } from "./commands/channels";
 import { DebugCommands, debugSessions } from "./commands/debug";
@@ -44,19 +45,24 @@ import { LspEditCommands } from "./commands/edit_lsp";
 import { FlutterOutlineCommands } from "./commands/flutter_outline";
 import { GoToSuperCommand } from "./commands/go_to_super";
 import { LoggingCommands } from "./commands/logging";
+import { MultiDeviceLaunchCommand } from "./commands/multi_device";
 import { OpenInOtherEditorCommands } from "./commands/open_in_other_editors";
 import { RefactorCommands } from "./commands/refactor";
 import { SdkCommands } from "./commands/sdk";
 import { cursorIsInTest, DasTestCommands, isInImplementationFileThatCanHaveTest, isInTestFileThatHasImplementation, LspTestCommands } from "./commands/test";
+import { TestWatchMode } from "./commands/test_watch";
 import { TypeHierarchyCommand } from "./commands/type_hierarchy";
 import { config } from "./config";
 import { DartTaskProvider } from "./dart/dart_task_provider";
 import { ClosingLabelsDecorations } from "./decorations/closing_labels_decorations";
+import { CoverageDecorations } from "./decorations/coverage_decorations";
+import { CpuProfileDecorations } from "./decorations/cpu_profile_decorations";
 import { FlutterColorDecorations } from "./decorations/flutter_color_decorations";
 import { FlutterIconDecorationsDas } from "./decorations/flutter_icon_decorations_das";
 import { FlutterIconDecorationsLsp } from "./decorations/flutter_icon_decorations_lsp";
 import { FlutterUiGuideDecorationsDas } from "./decorations/flutter_ui_guides_decorations_das";
 import { FlutterUiGuideDecorationsLsp } from "./decorations/flutter_ui_guides_decorations_lsp";
+import { TestDurationDecorations } from "./decorations/test_duration_decorations";
 import { getExperiments, KnownExperiments } from "./experiments";
 import { setUpDaemonMessageHandler } from "./flutter/daemon_message_handler";
 import { FlutterDaemon } from "./flutter/flutter_daemon";
@@ -98,7 +104,11 @@ import { handleNewProjects, showUserPrompts } from "./user_prompts";
 import * as util from "./utils";
 import { addToLogHeader, clearLogHeader, getExtensionLogPath, getLogHeader } from "./utils/log";
 import { safeToolSpawn } from "./utils/processes";
+import { AllocationProfileProvider } from "./views/allocation_profile_view";
+import { CpuProfileProvider } from "./views/cpu_profile_view";
 import { DartPackagesProvider } from "./views/packages_view";
+import { ReloadHistoryProvider } from "./views/reload_history_view";
+import { SlowestTestsProvider } from "./views/slowest_tests_view";
 import { TestResultsProvider } from "./views/test_view";
 
 export const DART_MODE = { language: "dart", scheme: "file" };
@@ -450,7 +460,7 @@ export async function activate(context: vs.ExtensionContext, isRestart: boolean
 	// Fire up Flutter daemon if required.
 	if (workspaceContext.hasAnyFlutterMobileProjects && sdks.flutter) {
 		flutterDaemon = new FlutterDaemon(logger, workspaceContext as FlutterWorkspaceContext, flutterCapabilities);
-		deviceManager = new FlutterDeviceManager(logger, flutterDaemon, config);
+		deviceManager = new FlutterDeviceManager(logger, flutterDaemon, config, extContext);
 
 		context.subscriptions.push(deviceManager);
 		context.subscriptions.push(flutterDaemon);
@@ -459,6 +469,7 @@ export async function activate(context: vs.ExtensionContext, isRestart: boolean
 
 		context.subscriptions.push(vs.commands.registerCommand("flutter.selectDevice", deviceManager.showDevicePicker, deviceManager));
 		context.subscriptions.push(vs.commands.registerCommand("flutter.launchEmulator", deviceManager.promptForAndLaunchEmulator, deviceManager));
+		context.subscriptions.push(new MultiDeviceLaunchCommand(logger, deviceManager));
 	}
 
 	util.logTime("All other stuff before debugger..");
@@ -537,12 +548,13 @@ export async function activate(context: vs.ExtensionContext, isRestart: boolean
 	context.subscriptions.push(vs.workspace.onDidChangeConfiguration(() => handleConfigurationChange(sdks)));
 
 	// Wire up handling of Hot Reload on Save.
-	context.subscriptions.push(new HotReloadOnSaveHandler(debugCommands, flutterCapabilities));
+	context.subscriptions.push(new HotReloadOnSaveHandler(logger, debugCommands, flutterCapabilities));
 
 	// Register URI handler.
 	context.subscriptions.push(vs.window.registerUriHandler(new DartUriHandler(flutterCapabilities)));
 
 	context.subscriptions.push(new LoggingCommands(logger, context.logPath));
+	context.subscriptions.push(new AffectedTestsCommand(logger, dasClient));
 	context.subscriptions.push(new OpenInOtherEditorCommands(logger, sdks));
 	if (dasAnalyzer)
 		context.subscriptions.push(new DasTestCommands(logger, workspaceContext, dasAnalyzer.fileTracker, flutterCapabilities));
@@ -577,8 +589,30 @@ export async function activate(context: vs.ExtensionContext, isRestart: boolean
 	);
 	if (lspAnalyzer)
 		context.subscriptions.push(new TestDiscoverer(logger, lspAnalyzer.fileTracker, testTreeModel));
-	const testTreeProvider = new TestResultsProvider(testTreeModel, testCoordinator, flutterCapabilities);
+	context.subscriptions.push(new CoverageDecorations(debugCommands));
+	const allocationProfileProvider = new AllocationProfileProvider(debugCommands);
+	const allocationProfileTreeView = vs.window.createTreeView("dartAllocationProfile", { treeDataProvider: allocationProfileProvider });
+	context.subscriptions.push(
+		allocationProfileProvider,
+		allocationProfileTreeView,
+	);
+	const cpuProfileProvider = new CpuProfileProvider(debugCommands);
+	const cpuProfileTreeView = vs.window.createTreeView("dartCpuProfile", { treeDataProvider: cpuProfileProvider });
+	context.subscriptions.push(
+		cpuProfileProvider,
+		cpuProfileTreeView,
+		new CpuProfileDecorations(cpuProfileProvider),
+	);
+	const reloadHistoryProvider = new ReloadHistoryProvider(debugCommands);
+	const reloadHistoryTreeView = vs.window.createTreeView("dartReloadHistory", { treeDataProvider: reloadHistoryProvider });
+	context.subscriptions.push(
+		reloadHistoryProvider,
+		reloadHistoryTreeView,
+	);
+	const testTreeProvider = new TestResultsProvider(testTreeModel, testCoordinator, flutterCapabilities, extContext);
 	const testTreeView = vs.window.createTreeView("dartTestTree", { treeDataProvider: testTreeProvider });
+	const slowestTestsProvider = new SlowestTestsProvider(testTreeModel);
+	const slowestTestsTreeView = vs.window.createTreeView("dartSlowestTests", { treeDataProvider: slowestTestsProvider });
 	const tryReveal = async (node: TreeNode) => {
 		try {
 			await testTreeView.reveal(node);
@@ -590,6 +624,10 @@ export async function activate(context: vs.ExtensionContext, isRestart: boolean
 	context.subscriptions.push(
 		testTreeProvider,
 		testTreeView,
+		slowestTestsProvider,
+		slowestTestsTreeView,
+		new TestDurationDecorations(testTreeModel),
+		new TestWatchMode(logger, testTreeProvider),
 		testCoordinator.onDidStartTests.listen(async (node) => {
 			if (config.openTestViewOnStart)
 				tryReveal(node);
@@ -1,40 +1,131 @@
+import * as fs from "fs";
 import * as path from "path";
-import { commands, DiagnosticSeverity, languages, TextDocumentSaveReason, Uri, workspace } from "vscode";
+import { commands, debug, DiagnosticSeverity, DocumentSymbol, FileSystemWatcher, languages, RelativePattern, SymbolInformation, SymbolKind, TextDocument, TextDocumentSaveReason, Uri, window, workspace } from "vscode";
 import { FlutterCapabilities } from "../../shared/capabilities/flutter";
 import { restartReasonSave } from "../../shared/constants";
-import { VmService } from "../../shared/enums";
-import { IAmDisposable } from "../../shared/interfaces";
+import { DebuggerType, VmService } from "../../shared/enums";
+import { AssetChangeAction, getArbDir, getAssetChangeAction, getAssetWatchPatterns, parsePubspecAssets, PubspecAssets } from "../../shared/flutter/pubspec_assets";
+import { Declaration, DeclarationKind, getChangesRequiringRestart } from "../../shared/flutter/reload_compatibility";
+import { IAmDisposable, Logger } from "../../shared/interfaces";
 import { disposeAll } from "../../shared/utils";
-import { fsPath } from "../../shared/utils/fs";
-import { DebugCommands } from "../commands/debug";
+import { sortBy } from "../../shared/utils/array";
+import { fsPath, hasPubspec, isWithinPath } from "../../shared/utils/fs";
+import { getAllProjectFolders } from "../../shared/vscode/utils";
+import { DebugCommands, debugSessions } from "../commands/debug";
 import { config } from "../config";
-import { isWithinWorkspace, shouldHotReloadFor } from "../utils";
+import { getExcludedFolders, isWithinWorkspace, shouldHotReloadFor } from "../utils";
+
+interface ProjectAssets {
+	assets: PubspecAssets;
+	arbDir: string;
+	watcher?: FileSystemWatcher;
+}
 
 export class HotReloadOnSaveHandler implements IAmDisposable {
 	private disposables: IAmDisposable[] = [];
 	private hotReloadDelayTimer: NodeJS.Timer | undefined;
+	private pendingRestartReasons: string[] = [];
+	/// The declarations in each file as they were when the running app last had them applied, used to
+	/// detect changes that hot reload can't apply.
+	private readonly reloadedDeclarations = new Map<string, Declaration[]>();
+	/// The parsed assets for each project folder, updated when its pubspec or l10n.yaml changes.
+	private readonly projectAssets = new Map<string, ProjectAssets>();
 
 	// Track save reason so we can avoid hot reloading on auto-saves.
 	private lastSaveReason: TextDocumentSaveReason | undefined;
 
-	constructor(private readonly debugCommands: DebugCommands, private readonly flutterCapabilities: FlutterCapabilities) {
+	constructor(logger: Logger, private readonly debugCommands: DebugCommands, private readonly flutterCapabilities: FlutterCapabilities) {
 		// Non-FS-watcher version (onDidSave).
 		this.disposables.push(workspace.onWillSaveTextDocument((e) => this.lastSaveReason = e.reason));
 		this.disposables.push(workspace.onDidSaveTextDocument((td) => {
+			// Without a Flutter session, nothing is reloaded, so the recorded declarations no longer
+			// match what the next session will run.
+			if (!this.hasFlutterSession)
+				this.reloadedDeclarations.delete(fsPath(td.uri));
+
 			// Bail if we're using fs-watcher instead. We still wire this
 			// handler up so we don't need to reload for this setting change.
-			if (config.previewHotReloadOnSaveWatcher)
+			// Assets aren't handled by the fs-watcher, so are always handled here.
+			if (config.previewHotReloadOnSaveWatcher && shouldHotReloadFor(td))
 				return;
 
 			this.triggerReload(td);
 		}));
 
+		// While a Flutter app is running, record what's in open files so we can tell what changed when they're
+		// next saved. Files opened later are assumed to match what's running since any earlier saves were
+		// reloaded. Files are only recorded again if they changed without being reloaded.
+		this.disposables.push(workspace.onDidOpenTextDocument((td) => {
+			if (this.hasFlutterSession && !this.reloadedDeclarations.has(fsPath(td.uri)))
+				this.recordDeclarations(td);
+		}));
+		this.disposables.push(debug.onDidStartDebugSession((session) => {
+			if (session.configuration.debuggerType !== DebuggerType.Flutter)
+				return;
+			workspace.textDocuments
+				.filter((td) => !this.reloadedDeclarations.has(fsPath(td.uri)))
+				.forEach((td) => this.recordDeclarations(td));
+		}));
+
 		// FS-watcher version.
 		// TODO: Make this support everything that shouldHotReloadFor() does.
 		const watcher = workspace.createFileSystemWatcher("**/*.dart");
 		this.disposables.push(watcher);
 		watcher.onDidChange(this.handleFileSystemChange, this);
 		watcher.onDidCreate(this.handleFileSystemChange, this);
+
+		// Assets such as images are often changed outside of the editor, so also watch for changes
+		// to the assets, fonts and ARB files of each project, updating when the project files change.
+		const projectFileWatcher = workspace.createFileSystemWatcher("**/{pubspec.yaml,l10n.yaml}");
+		this.disposables.push(projectFileWatcher);
+		projectFileWatcher.onDidChange(this.handleProjectFileChange, this);
+		projectFileWatcher.onDidCreate(this.handleProjectFileChange, this);
+		projectFileWatcher.onDidDelete(this.handleProjectFileChange, this);
+		getAllProjectFolders(logger, getExcludedFolders, { requirePubspec: true })
+			.then((projectFolders) => projectFolders.forEach((projectFolder) => this.watchProjectAssets(projectFolder)))
+			.catch((e) => logger.error(e));
+	}
+
+	private get hasFlutterSession(): boolean {
+		return debugSessions.some((s) => s.session.configuration.debuggerType === DebuggerType.Flutter);
+	}
+
+	private handleProjectFileChange(uri: Uri) {
+		// Skip build output, which may contain copies of project files.
+		const projectFolder = path.dirname(fsPath(uri));
+		const segments = projectFolder.split(path.sep);
+		if (segments.includes("build") || segments.includes(".dart_tool"))
+			return;
+
+		this.watchProjectAssets(projectFolder);
+	}
+
+	private watchProjectAssets(projectFolder: string) {
+		this.projectAssets.get(projectFolder)?.watcher?.dispose();
+		this.projectAssets.delete(projectFolder);
+		if (!hasPubspec(projectFolder))
+			return;
+
+		const assets = parsePubspecAssets(fs.readFileSync(path.join(projectFolder, "pubspec.yaml")).toString());
+		const l10nYamlPath = path.join(projectFolder, "l10n.yaml");
+		const arbDir = getArbDir(fs.existsSync(l10nYamlPath) ? fs.readFileSync(l10nYamlPath).toString() : undefined);
+
+		const patterns = getAssetWatchPatterns(assets, arbDir);
+		let watcher: FileSystemWatcher | undefined;
+		if (patterns.length) {
+			watcher = workspace.createFileSystemWatcher(new RelativePattern(projectFolder, patterns.length === 1 ? patterns[0] : `{${patterns.join(",")}}`));
+			watcher.onDidChange(this.handleAssetFileSystemChange, this);
+			watcher.onDidCreate(this.handleAssetFileSystemChange, this);
+		}
+		this.projectAssets.set(projectFolder, { arbDir, assets, watcher });
+	}
+
+	private handleAssetFileSystemChange(uri: Uri) {
+		// Open documents are handled by onDidSaveTextDocument, and Dart files by the watcher above.
+		if (uri.scheme !== "file" || shouldHotReloadFor({ uri }) || workspace.textDocuments.find((td) => td.uri.toString() === uri.toString()))
+			return;
+
+		this.triggerReload({ uri }, { isExternalChange: true });
 	}
 
 	private handleFileSystemChange(uri: Uri) {
@@ -46,12 +137,12 @@ export class HotReloadOnSaveHandler implements IAmDisposable {
 		this.triggerReload({ uri });
 	}
 
-	private triggerReload(file: { uri: Uri, isUntitled?: boolean, languageId?: string }) {
+	private async triggerReload(file: { uri: Uri, isUntitled?: boolean, languageId?: string }, options?: { isExternalChange?: boolean }) {
 		if (config.flutterHotReloadOnSave === "never")
 			return;
 
-		const isAutoSave = this.lastSaveReason === TextDocumentSaveReason.FocusOut ||
-			this.lastSaveReason === TextDocumentSaveReason.AfterDelay;
+		const isAutoSave = !options?.isExternalChange && (this.lastSaveReason === TextDocumentSaveReason.FocusOut ||
+			this.lastSaveReason === TextDocumentSaveReason.AfterDelay);
 
 		if (isAutoSave && config.flutterHotReloadOnSave === "manual")
 			return;
@@ -71,12 +162,20 @@ export class HotReloadOnSaveHandler implements IAmDisposable {
 		if (!shouldHotReload && !shouldHotRestart)
 			return;
 
-		const commandToRun = shouldHotReload ? "flutter.hotReload" : "flutter.hotRestart";
+		let commandToRun = shouldHotReload ? "flutter.hotReload" : "flutter.hotRestart";
 
-		// Bail out if we're in an external file, or not Dart.
-		if (!isWithinWorkspace(fsPath(file.uri)) || !shouldHotReloadFor(file))
+		// Bail out if we're in an external file.
+		if (!isWithinWorkspace(fsPath(file.uri)))
 			return;
 
+		// Files that aren't code may be assets, which are synced to the device as part of a reload or restart.
+		const isCode = shouldHotReloadFor(file);
+		const assetChangeAction = isCode ? undefined : this.getAssetChangeAction(fsPath(file.uri));
+		if (!isCode && !assetChangeAction)
+			return;
+		if (assetChangeAction === "restart" && this.debugCommands.vmServices.serviceIsRegistered(VmService.HotRestart))
+			commandToRun = "flutter.hotRestart";
+
 		// Don't do if we have errors for the saved file.
 		const errors = languages.getDiagnostics(file.uri);
 		const hasErrors = errors && errors.find((d) => d.source === "dart" && d.severity === DiagnosticSeverity.Error) != null;
@@ -85,8 +184,11 @@ export class HotReloadOnSaveHandler implements IAmDisposable {
 
 		const args = { reason: restartReasonSave, debounce: this.flutterCapabilities.supportsRestartDebounce };
 
+		if (isCode && shouldHotReload && config.flutterHotRestartOnUnsupportedChanges !== "never")
+			this.pendingRestartReasons.push(...await this.getChangesRequiringRestart(file.uri));
+
 		if (this.flutterCapabilities.supportsRestartDebounce) {
-			commands.executeCommand(commandToRun, args);
+			this.runReloadCommand(commandToRun, args);
 		} else {
 			// Debounce to avoid reloading multiple times during multi-file-save (Save All).
 			// Hopefully we can improve in future: https://github.com/microsoft/vscode/issues/86087
@@ -96,15 +198,116 @@ export class HotReloadOnSaveHandler implements IAmDisposable {
 
 			this.hotReloadDelayTimer = setTimeout(() => {
 				this.hotReloadDelayTimer = undefined;
-				commands.executeCommand(commandToRun, args);
+				this.runReloadCommand(commandToRun, args);
 			}, 200);
 		}
 	}
 
+	private runReloadCommand(commandToRun: string, args: { reason: string, debounce: boolean }) {
+		const restartReasons = this.pendingRestartReasons;
+		this.pendingRestartReasons = [];
+
+		if (restartReasons.length && commandToRun === "flutter.hotReload") {
+			if (config.flutterHotRestartOnUnsupportedChanges === "always")
+				commandToRun = "flutter.hotRestart";
+			else
+				this.promptForHotRestart(restartReasons);
+		}
+		commands.executeCommand(commandToRun, args);
+	}
+
+	private async promptForHotRestart(reasons: string[]) {
+		const hotRestartAction = "Hot Restart";
+		const alwaysAction = "Always Hot Restart";
+		const action = await window.showInformationMessage(
+			`This change needs a hot restart to take effect (${reasons.join(", ")}).`,
+			hotRestartAction,
+			alwaysAction,
+		);
+		if (action === alwaysAction)
+			await config.setFlutterHotRestartOnUnsupportedChanges("always");
+		if (action === hotRestartAction || action === alwaysAction)
+			commands.executeCommand("flutter.hotRestart");
+	}
+
+	private getAssetChangeAction(file: string): AssetChangeAction | undefined {
+		// Projects may be nested, so use the nearest one containing the file.
+		const projectFolder = sortBy([...this.projectAssets.keys()].filter((folder) => isWithinPath(file, folder)), (folder) => -folder.length)[0];
+		const project = projectFolder ? this.projectAssets.get(projectFolder) : undefined;
+		return project ? getAssetChangeAction(path.relative(projectFolder, file), project.assets, project.arbDir) : undefined;
+	}
+
+	private async getChangesRequiringRestart(uri: Uri): Promise<string[]> {
+		const file = fsPath(uri);
+		const previous = this.reloadedDeclarations.get(file);
+		const document = workspace.textDocuments.find((td) => fsPath(td.uri) === file);
+		const current = document && await this.getDeclarations(document);
+		if (!current)
+			return [];
+
+		// Whether or not the user restarts, this is now the baseline for the next save.
+		this.reloadedDeclarations.set(file, current);
+		return previous ? getChangesRequiringRestart(previous, current) : [];
+	}
+
+	private async recordDeclarations(document: TextDocument) {
+		if (document.languageId !== "dart" || document.uri.scheme !== "file" || document.isDirty)
+			return;
+		const declarations = await this.getDeclarations(document);
+		if (declarations)
+			this.reloadedDeclarations.set(fsPath(document.uri), declarations);
+	}
+
+	private async getDeclarations(document: TextDocument): Promise<Declaration[] | undefined> {
+		let symbols: Array<DocumentSymbol | SymbolInformation> | undefined;
+		try {
+			symbols = await commands.executeCommand<Array<DocumentSymbol | SymbolInformation>>("vscode.executeDocumentSymbolProvider", document.uri);
+		} catch {
+			return undefined;
+		}
+		// Older providers may return flat SymbolInformations that don't have the ranges we need.
+		if (!symbols?.length || !symbols.every((s) => "children" in s))
+			return undefined;
+
+		const toDeclaration = (symbol: DocumentSymbol): Declaration => ({
+			children: symbol.children.map(toDeclaration),
+			kind: getDeclarationKind(symbol.kind),
+			modifiers: document.lineAt(symbol.selectionRange.start.line).text.substring(0, symbol.selectionRange.start.character),
+			name: symbol.name,
+			text: document.getText(symbol.range),
+		});
+		return (symbols as DocumentSymbol[]).map(toDeclaration);
+	}
+
 	public dispose(): void | Promise<void> {
 		if (this.hotReloadDelayTimer)
 			clearTimeout(this.hotReloadDelayTimer);
 
+		for (const project of this.projectAssets.values())
+			project.watcher?.dispose();
 		disposeAll(this.disposables);
 	}
 }
+
+function getDeclarationKind(kind: SymbolKind): DeclarationKind {
+	switch (kind) {
+		case SymbolKind.Class:
+			return "class";
+		case SymbolKind.Enum:
+			return "enum";
+		case SymbolKind.Function:
+			return "function";
+		case SymbolKind.Method:
+			return "method";
+		case SymbolKind.Constructor:
+			return "constructor";
+		// Getters and setters are Properties and are handled like any other method.
+		case SymbolKind.Field:
+			return "field";
+		case SymbolKind.Variable:
+		case SymbolKind.Constant:
+			return "variable";
+		default:
+			return "other";
+	}
+}
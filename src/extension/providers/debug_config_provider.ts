@@ -9,6 +9,7 @@ import { CHROME_OS_VM_SERVICE_PORT, debugAnywayAction, HAS_LAST_DEBUG_CONFIG, HA
 import { DartLaunchArgs, DartVsCodeLaunchArgs } from "../../shared/debug/interfaces";
 import { DebuggerType, VmServiceExtension } from "../../shared/enums";
 import { Device } from "../../shared/flutter/daemon_interfaces";
+import { getDevicePresetToolArgs } from "../../shared/flutter/device_presets";
 import { getFutterWebRenderer } from "../../shared/flutter/utils";
 import { IFlutterDaemon, Logger } from "../../shared/interfaces";
 import { TestTreeModel } from "../../shared/test/test_model";
@@ -489,6 +490,11 @@ export class DebugConfigProvider implements DebugConfigurationProvider {
 		if (isFlutter && !debugConfig.deviceId && device) {
 			debugConfig.deviceId = device.id;
 			debugConfig.deviceName = `${deviceManager ? deviceManager.labelForDevice(device) : device.name} (${device.platform})`;
+
+			// Presets only apply to `flutter run` when using the selected device, not one set in the launch config.
+			const preset = deviceManager?.activePreset;
+			if (preset && debugType === DebuggerType.Flutter && !isAttach)
+				debugConfig.toolArgs = [...debugConfig.toolArgs ?? [], ...getDevicePresetToolArgs(preset, debugConfig.toolArgs ?? [])];
 		}
 
 		debugConfig.toolEnv = getToolEnv();
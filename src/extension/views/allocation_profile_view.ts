@@ -0,0 +1,185 @@
+import * as vs from "vscode";
+import { AllocationProfile, ClassAllocation, ClassInstances } from "../../shared/debug/interfaces";
+import { disposeAll } from "../../shared/utils";
+import { sortBy } from "../../shared/utils/array";
+import { DebugCommands } from "../commands/debug";
+import { DartDebugSessionInformation } from "../utils/vscode/debug";
+
+type AllocationSortOrder = "bytes" | "instances" | "name" | "change";
+
+const sortOrders: Array<{ label: string, sortOrder: AllocationSortOrder }> = [
+	{ label: "Size", sortOrder: "bytes" },
+	{ label: "Instances", sortOrder: "instances" },
+	{ label: "Class name", sortOrder: "name" },
+	{ label: "Change in size since previous capture", sortOrder: "change" },
+];
+
+export class AllocationProfileProvider implements vs.Disposable, vs.TreeDataProvider<AllocationProfileNode> {
+	private disposables: vs.Disposable[] = [];
+	private onDidChangeTreeDataEmitter: vs.EventEmitter<AllocationProfileNode | undefined> = new vs.EventEmitter<AllocationProfileNode | undefined>();
+	public readonly onDidChangeTreeData: vs.Event<AllocationProfileNode | undefined> = this.onDidChangeTreeDataEmitter.event;
+	private session: DartDebugSessionInformation | undefined;
+	private current: AllocationProfile | undefined;
+	// The capture before current (for the same session and isolate) which is used to show changes.
+	private previous: AllocationProfile | undefined;
+	private sortOrder: AllocationSortOrder = "bytes";
+
+	constructor(private readonly debugCommands: DebugCommands) {
+		this.disposables.push(vs.debug.onDidTerminateDebugSession((session) => this.handleDebugSessionEnd(session)));
+		this.disposables.push(vs.commands.registerCommand("dart.showAllocationProfile", () => this.capture()));
+		this.disposables.push(vs.commands.registerCommand("dart.sortAllocationProfile", () => this.promptForSortOrder()));
+		this.disposables.push(vs.commands.registerCommand("dart.clearAllocationProfile", () => this.clear()));
+	}
+
+	public getTreeItem(element: AllocationProfileNode): vs.TreeItem {
+		return element;
+	}
+
+	public async getChildren(element?: AllocationProfileNode): Promise<AllocationProfileNode[]> {
+		if (!element) {
+			if (!this.session || !this.current)
+				return [];
+			const previousClasses: { [classId: string]: ClassAllocation } = {};
+			for (const cls of this.previous?.classes || [])
+				previousClasses[cls.classId] = cls;
+			const nodes = this.current.classes.map((cls) => new AllocationClassNode(this.session!, this.current!.isolateId, cls, this.previous ? previousClasses[cls.classId] || noAllocations : undefined));
+			return this.sort(nodes);
+		} else if (element instanceof AllocationClassNode) {
+			let result: ClassInstances;
+			try {
+				result = await element.session.session.customRequest("getInstances", { isolateId: element.isolateId, classId: element.allocation.classId });
+			} catch (e) {
+				return [new AllocationMessageNode(`Unable to fetch instances: ${e}`)];
+			}
+			const nodes: AllocationProfileNode[] = result.instances.map((instance) => new AllocationVariableNode(element.session, instance));
+			if (result.totalCount > result.instances.length)
+				nodes.push(new AllocationMessageNode(`${result.totalCount - result.instances.length} more instances not shown`));
+			return nodes;
+		} else if (element instanceof AllocationVariableNode) {
+			let result: { variables: ClassInstances["instances"] };
+			try {
+				result = await element.session.session.customRequest("variables", { variablesReference: element.variablesReference });
+			} catch (e) {
+				return [new AllocationMessageNode(`Unable to fetch fields: ${e}`)];
+			}
+			return result.variables.map((variable) => new AllocationVariableNode(element.session, variable));
+		} else {
+			return [];
+		}
+	}
+
+	private async capture(): Promise<void> {
+		const session = await this.debugCommands.getDebugSession();
+		if (!session)
+			return;
+		if (session.session.configuration.noDebug) {
+			vs.window.showInformationMessage("You must start your app with debugging to capture an allocation profile.");
+			return;
+		}
+
+		let profile: AllocationProfile;
+		try {
+			profile = await session.session.customRequest("getAllocationProfile", { gc: true });
+		} catch (e) {
+			vs.window.showErrorMessage(`Unable to capture allocation profile: ${e}`);
+			return;
+		}
+
+		// Only keep the previous capture if it's comparable to the new one.
+		this.previous = this.session === session && this.current?.isolateId === profile.isolateId ? this.current : undefined;
+		this.session = session;
+		this.current = profile;
+		this.onDidChangeTreeDataEmitter.fire(undefined);
+		await vs.commands.executeCommand("dartAllocationProfile.focus");
+	}
+
+	private async promptForSortOrder(): Promise<void> {
+		const items = sortOrders.map((o) => ({ label: o.label, sortOrder: o.sortOrder, picked: o.sortOrder === this.sortOrder }));
+		const selection = await vs.window.showQuickPick(items, { placeHolder: "Sort classes by" });
+		if (!selection)
+			return;
+		this.sortOrder = selection.sortOrder;
+		this.onDidChangeTreeDataEmitter.fire(undefined);
+	}
+
+	private sort(nodes: AllocationClassNode[]): AllocationClassNode[] {
+		switch (this.sortOrder) {
+			case "name":
+				return sortBy(nodes, (n) => n.allocation.className.toLowerCase());
+			case "instances":
+				return sortBy(nodes, (n) => -n.allocation.instances);
+			case "change":
+				return sortBy(nodes, (n) => -Math.abs(n.allocation.bytes - (n.previous?.bytes ?? n.allocation.bytes)));
+			default:
+				return sortBy(nodes, (n) => -n.allocation.bytes);
+		}
+	}
+
+	private clear() {
+		this.session = undefined;
+		this.current = undefined;
+		this.previous = undefined;
+		this.onDidChangeTreeDataEmitter.fire(undefined);
+	}
+
+	private handleDebugSessionEnd(session: vs.DebugSession) {
+		if (this.session?.session.id === session.id)
+			this.clear();
+	}
+
+	public dispose(): any {
+		disposeAll(this.disposables);
+	}
+}
+
+// Used as the previous allocation for classes that had no instances in the previous capture.
+const noAllocations = { bytes: 0, instances: 0 };
+
+export abstract class AllocationProfileNode extends vs.TreeItem { }
+
+class AllocationClassNode extends AllocationProfileNode {
+	constructor(
+		public readonly session: DartDebugSessionInformation,
+		public readonly isolateId: string,
+		public readonly allocation: ClassAllocation,
+		public readonly previous: { bytes: number, instances: number } | undefined,
+	) {
+		super(allocation.className, vs.TreeItemCollapsibleState.Collapsed);
+		const changes = previous
+			? ` (${formatChange(allocation.instances - previous.instances)}, ${formatChange(allocation.bytes - previous.bytes, formatBytes)})`
+			: "";
+		this.description = `${allocation.instances} instances, ${formatBytes(allocation.bytes)}${changes}`;
+		this.tooltip = allocation.libraryUri ? `${allocation.className} (${allocation.libraryUri})` : allocation.className;
+	}
+}
+
+class AllocationVariableNode extends AllocationProfileNode {
+	public readonly variablesReference: number;
+
+	constructor(public readonly session: DartDebugSessionInformation, variable: ClassInstances["instances"][0]) {
+		super(variable.name, variable.variablesReference ? vs.TreeItemCollapsibleState.Collapsed : vs.TreeItemCollapsibleState.None);
+		this.variablesReference = variable.variablesReference;
+		this.description = variable.value;
+		this.tooltip = variable.type;
+	}
+}
+
+class AllocationMessageNode extends AllocationProfileNode {
+	constructor(message: string) {
+		super(message, vs.TreeItemCollapsibleState.None);
+	}
+}
+
+function formatBytes(bytes: number): string {
+	const abs = Math.abs(bytes);
+	if (abs < 1024)
+		return `${bytes} B`;
+	else if (abs < 1024 * 1024)
+		return `${(bytes / 1024).toFixed(1)} KB`;
+	else
+		return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatChange(change: number, format: (value: number) => string = (v) => `${v}`): string {
+	return change > 0 ? `+${format(change)}` : change < 0 ? format(change) : "±0";
+}
@@ -0,0 +1,133 @@
+import * as vs from "vscode";
+import { CpuProfile, ProfiledFunction } from "../../shared/debug/interfaces";
+import { disposeAll } from "../../shared/utils";
+import { sortBy } from "../../shared/utils/array";
+import { buildCallTree, CallTreeNode } from "../../shared/debug/cpu_profile";
+import { DebugCommands } from "../commands/debug";
+import { DartDebugSessionInformation } from "../utils/vscode/debug";
+
+const isCpuProfilingContext = "dart-code:isCpuProfiling";
+
+export class CpuProfileProvider implements vs.Disposable, vs.TreeDataProvider<CpuProfileNode> {
+	private disposables: vs.Disposable[] = [];
+	private onDidChangeTreeDataEmitter: vs.EventEmitter<CpuProfileNode | undefined> = new vs.EventEmitter<CpuProfileNode | undefined>();
+	public readonly onDidChangeTreeData: vs.Event<CpuProfileNode | undefined> = this.onDidChangeTreeDataEmitter.event;
+	private onDidChangeProfileEmitter: vs.EventEmitter<CpuProfile | undefined> = new vs.EventEmitter<CpuProfile | undefined>();
+	public readonly onDidChangeProfile: vs.Event<CpuProfile | undefined> = this.onDidChangeProfileEmitter.event;
+	private profilingSession: DartDebugSessionInformation | undefined;
+	private profile: CpuProfile | undefined;
+	private totalSamples = 0;
+
+	constructor(private readonly debugCommands: DebugCommands) {
+		this.disposables.push(vs.debug.onDidTerminateDebugSession((session) => this.handleDebugSessionEnd(session)));
+		this.disposables.push(vs.commands.registerCommand("dart.startCpuProfile", () => this.start()));
+		this.disposables.push(vs.commands.registerCommand("dart.stopCpuProfile", () => this.stop()));
+		this.disposables.push(vs.commands.registerCommand("dart.clearCpuProfile", () => this.setProfile(undefined)));
+	}
+
+	public getTreeItem(element: CpuProfileNode): vs.TreeItem {
+		return element;
+	}
+
+	public getChildren(element?: CpuProfileNode): CpuProfileNode[] {
+		if (!this.profile) {
+			return [];
+		} else if (!element) {
+			return [
+				new CpuProfileTreeRootNode("Bottom Up", "Functions where the most time was spent, expanding to their callers", buildCallTree(this.profile, "bottomUp")),
+				new CpuProfileTreeRootNode("Top Down", "Call tree starting from the entry points", buildCallTree(this.profile, "topDown")),
+			];
+		} else if (element instanceof CpuProfileTreeRootNode || element instanceof CpuProfileCallNode) {
+			return sortBy(element.children, (c) => -c.ticks).map((c) => new CpuProfileCallNode(this.profile!.functions[c.functionIndex], c, this.totalSamples));
+		} else {
+			return [];
+		}
+	}
+
+	private async start(): Promise<void> {
+		const session = await this.debugCommands.getDebugSession();
+		if (!session)
+			return;
+		if (session.session.configuration.noDebug) {
+			vs.window.showInformationMessage("You must start your app with debugging to use the CPU profiler.");
+			return;
+		}
+
+		try {
+			await session.session.customRequest("startCpuProfile");
+		} catch (e) {
+			vs.window.showErrorMessage(`Unable to start CPU profiling: ${e}`);
+			return;
+		}
+		this.setProfiling(session);
+		vs.window.setStatusBarMessage("CPU profiling started", 3000);
+	}
+
+	private async stop(): Promise<void> {
+		const session = this.profilingSession;
+		if (!session)
+			return;
+		this.setProfiling(undefined);
+
+		try {
+			this.setProfile(await session.session.customRequest("stopCpuProfile"));
+		} catch (e) {
+			vs.window.showErrorMessage(`Unable to collect CPU samples: ${e}`);
+			return;
+		}
+		await vs.commands.executeCommand("dartCpuProfile.focus");
+	}
+
+	private setProfiling(session: DartDebugSessionInformation | undefined) {
+		this.profilingSession = session;
+		vs.commands.executeCommand("setContext", isCpuProfilingContext, !!session);
+	}
+
+	private setProfile(profile: CpuProfile | undefined) {
+		this.profile = profile;
+		this.totalSamples = profile?.samples.length ?? 0;
+		this.onDidChangeTreeDataEmitter.fire(undefined);
+		this.onDidChangeProfileEmitter.fire(profile);
+	}
+
+	private handleDebugSessionEnd(session: vs.DebugSession) {
+		if (this.profilingSession?.session.id === session.id)
+			this.setProfiling(undefined);
+	}
+
+	public dispose(): any {
+		this.setProfiling(undefined);
+		disposeAll(this.disposables);
+	}
+}
+
+export abstract class CpuProfileNode extends vs.TreeItem { }
+
+class CpuProfileTreeRootNode extends CpuProfileNode {
+	constructor(label: string, tooltip: string, public readonly children: CallTreeNode[]) {
+		super(label, vs.TreeItemCollapsibleState.Expanded);
+		this.tooltip = tooltip;
+	}
+}
+
+class CpuProfileCallNode extends CpuProfileNode {
+	public readonly children: CallTreeNode[];
+
+	constructor(func: ProfiledFunction, node: CallTreeNode, totalSamples: number) {
+		super(func.name, node.children.length ? vs.TreeItemCollapsibleState.Collapsed : vs.TreeItemCollapsibleState.None);
+		this.children = node.children;
+		this.description = `${formatPercent(node.ticks, totalSamples)} total, ${formatPercent(node.selfTicks, totalSamples)} self`;
+		this.tooltip = func.filePath ? `${func.name} (${func.filePath}:${func.line})` : func.name;
+		if (func.filePath) {
+			this.command = {
+				arguments: [vs.Uri.file(func.filePath), func.line, func.column],
+				command: "_dart.jumpToLineColInUri",
+				title: "",
+			};
+		}
+	}
+}
+
+export function formatPercent(ticks: number, totalSamples: number): string {
+	return totalSamples ? `${(ticks * 100 / totalSamples).toFixed(1)}%` : "0%";
+}
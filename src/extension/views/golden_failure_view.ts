@@ -0,0 +1,114 @@
+import * as fs from "fs";
+import * as vs from "vscode";
+import { GoldenFailure } from "../../shared/test/golden_failures";
+import { firstNonEditorColumn } from "../../shared/vscode/utils";
+
+const pageScript = `
+const vscode = acquireVsCodeApi();
+for (const radio of document.querySelectorAll('input[name="mode"]')) {
+	radio.addEventListener('change', () => {
+		for (const section of document.querySelectorAll('.mode'))
+			section.hidden = section.id !== radio.value;
+	});
+}
+document.getElementById('opacity').addEventListener('input', (e) => {
+	const testImage = document.getElementById('overlayTestImage');
+	if (testImage)
+		testImage.style.opacity = e.target.value / 100;
+});
+document.getElementById('accept').addEventListener('click', () => vscode.postMessage({ command: 'accept' }));
+`;
+
+const pageCss = `
+body { padding: 1em; }
+[hidden] { display: none !important; }
+.controls { display: flex; gap: 1.5em; align-items: center; margin: 1em 0; }
+.images { display: flex; flex-wrap: wrap; gap: 1em; }
+figure { margin: 0; }
+figcaption { margin-bottom: 0.5em; font-weight: bold; }
+img { max-width: 100%; border: 1px solid var(--vscode-panel-border); background: repeating-conic-gradient(#ccc 0% 25%, #fff 0% 50%) 50% / 16px 16px; }
+.overlay { position: relative; display: inline-block; }
+.overlay img + img { position: absolute; top: 0; left: 0; opacity: 0.5; }
+button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 0.4em 1em; cursor: pointer; }
+button:hover { background: var(--vscode-button-hoverBackground); }
+`;
+
+const scriptNonce = Buffer.from(pageScript).toString("base64");
+const cssNonce = Buffer.from(pageCss).toString("base64");
+
+/// Shows the master, test and diff images for a failed golden file test, with an action to accept
+/// the new image as the golden.
+export class GoldenFailureView implements vs.Disposable {
+	private panel: vs.WebviewPanel | undefined;
+	private onAccept: (() => void) | undefined;
+
+	public show(testName: string, failure: GoldenFailure, onAccept: () => void): void {
+		this.onAccept = onAccept;
+		if (!this.panel) {
+			this.panel = vs.window.createWebviewPanel("dartGoldenFailure", "Golden Failure", firstNonEditorColumn() || vs.ViewColumn.Beside, { enableScripts: true });
+			this.panel.onDidDispose(() => this.panel = undefined);
+			this.panel.webview.onDidReceiveMessage((message) => {
+				if (message.command === "accept")
+					this.onAccept?.();
+			});
+		}
+
+		const webview = this.panel.webview;
+		webview.options = { enableScripts: true, localResourceRoots: [vs.Uri.file(failure.failuresFolder)] };
+		this.panel.title = `Golden Failure: ${testName}`;
+		webview.html = this.getHtml(webview, testName, failure);
+		this.panel.reveal();
+	}
+
+	private getHtml(webview: vs.Webview, testName: string, failure: GoldenFailure): string {
+		const image = (file: string, caption: string, id?: string) => fs.existsSync(file)
+			? `<img ${id ? `id="${id}" ` : ""}src="${webview.asWebviewUri(vs.Uri.file(file))}" alt="${caption}">`
+			: `<p>No ${caption.toLowerCase()} was written for this failure.</p>`;
+		const figure = (file: string, caption: string) => `<figure><figcaption>${caption}</figcaption>${image(file, caption)}</figure>`;
+		const { images } = failure;
+
+		return `
+			<html>
+			<head>
+			<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource}; script-src 'nonce-${scriptNonce}'; style-src 'nonce-${cssNonce}';">
+			<style nonce="${cssNonce}">${pageCss}</style>
+			</head>
+			<body>
+			<h2>${escapeHtml(testName)}</h2>
+			<p><code>${escapeHtml(failure.golden)}</code>: ${escapeHtml(failure.message)}</p>
+			<div class="controls">
+				<label><input type="radio" name="mode" value="sideBySide" checked> Side by side</label>
+				<label><input type="radio" name="mode" value="overlay"> Overlay</label>
+				<label><input type="radio" name="mode" value="difference"> Difference</label>
+				<button id="accept">Accept New Golden</button>
+			</div>
+			<div id="sideBySide" class="mode images">
+				${figure(images.masterImage, "Golden")}
+				${figure(images.testImage, "Test")}
+			</div>
+			<div id="overlay" class="mode" hidden>
+				<label>Golden <input id="opacity" type="range" min="0" max="100" value="50"> Test</label>
+				<div class="overlay">${image(images.masterImage, "Golden")}${image(images.testImage, "Test", "overlayTestImage")}</div>
+			</div>
+			<div id="difference" class="mode images" hidden>
+				${figure(images.isolatedDiff, "Isolated diff")}
+				${figure(images.maskedDiff, "Masked diff")}
+			</div>
+			<script nonce="${scriptNonce}">${pageScript}</script>
+			</body>
+			</html>
+			`;
+	}
+
+	public dispose(): void {
+		this.panel?.dispose();
+	}
+}
+
+function escapeHtml(input: string): string {
+	return input
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
@@ -0,0 +1,161 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vs from "vscode";
+import { restartReasonSave } from "../../shared/constants";
+import { parseReloadRejectionReasons, ReloadRejectionReason } from "../../shared/flutter/reload_report";
+import { ReloadCompletedEvent } from "../../shared/interfaces";
+import { formatDuration } from "../../shared/test/durations";
+import { disposeAll } from "../../shared/utils";
+import { fsPath } from "../../shared/utils/fs";
+import { DebugCommands } from "../commands/debug";
+
+const maxHistoryEntries = 100;
+
+interface ReloadHistoryEntry {
+	sessionName: string;
+	time: Date;
+	reload: ReloadCompletedEvent;
+	changedFiles: string[];
+	rejectionReasons: ReloadRejectionReason[];
+}
+
+export class ReloadHistoryProvider implements vs.Disposable, vs.TreeDataProvider<ReloadHistoryNode> {
+	private disposables: vs.Disposable[] = [];
+	private onDidChangeTreeDataEmitter: vs.EventEmitter<ReloadHistoryNode | undefined> = new vs.EventEmitter<ReloadHistoryNode | undefined>();
+	public readonly onDidChangeTreeData: vs.Event<ReloadHistoryNode | undefined> = this.onDidChangeTreeDataEmitter.event;
+	private history: ReloadHistoryEntry[] = [];
+	/// Files saved since the last reload, tracked per debug session since sessions may not all be reloaded together.
+	private readonly changedFiles = new Map<string, Set<string>>();
+
+	constructor(debugCommands: DebugCommands) {
+		this.disposables.push(vs.debug.onDidStartDebugSession((session) => {
+			if (session.type === "dart")
+				this.changedFiles.set(session.id, new Set<string>());
+		}));
+		this.disposables.push(vs.debug.onDidTerminateDebugSession((session) => this.changedFiles.delete(session.id)));
+		this.disposables.push(vs.workspace.onDidSaveTextDocument((doc) => {
+			if (doc.uri.scheme !== "file")
+				return;
+			for (const files of this.changedFiles.values())
+				files.add(fsPath(doc.uri));
+		}));
+		this.disposables.push(debugCommands.onReloadCompleted((e) => this.addEntry(e.session.session, e.reload)));
+		this.disposables.push(vs.commands.registerCommand("flutter.clearReloadHistory", () => this.clear()));
+	}
+
+	public getTreeItem(element: ReloadHistoryNode): vs.TreeItem {
+		return element;
+	}
+
+	public getChildren(element?: ReloadHistoryNode): ReloadHistoryNode[] {
+		if (!element) {
+			const showSessionNames = new Set(this.history.map((e) => e.sessionName)).size > 1;
+			return this.history.map((entry) => new ReloadNode(entry, showSessionNames));
+		} else if (element instanceof ReloadNode) {
+			const entry = element.entry;
+			const children: ReloadHistoryNode[] = [];
+			if (entry.rejectionReasons.length)
+				children.push(...entry.rejectionReasons.map((reason) => new RejectionReasonNode(reason)));
+			else if (entry.reload.error)
+				children.push(new ReloadErrorNode(entry.reload.error));
+			children.push(...entry.changedFiles.map((file) => new ChangedFileNode(file)));
+			return children;
+		}
+		return [];
+	}
+
+	private addEntry(session: vs.DebugSession, reload: ReloadCompletedEvent) {
+		const changedFiles = this.changedFiles.get(session.id);
+		this.history.unshift({
+			changedFiles: changedFiles ? [...changedFiles].sort() : [],
+			rejectionReasons: reload.error ? parseReloadRejectionReasons(reload.error) : [],
+			reload,
+			sessionName: session.name,
+			time: new Date(),
+		});
+		changedFiles?.clear();
+		this.history.splice(maxHistoryEntries);
+		this.onDidChangeTreeDataEmitter.fire(undefined);
+	}
+
+	private clear() {
+		this.history = [];
+		this.onDidChangeTreeDataEmitter.fire(undefined);
+	}
+
+	public dispose(): any {
+		disposeAll(this.disposables);
+	}
+}
+
+export abstract class ReloadHistoryNode extends vs.TreeItem { }
+
+class ReloadNode extends ReloadHistoryNode {
+	constructor(public readonly entry: ReloadHistoryEntry, showSessionName: boolean) {
+		super(
+			entry.reload.hotRestart ? "Hot restart" : "Hot reload",
+			entry.changedFiles.length || entry.reload.error ? vs.TreeItemCollapsibleState.Collapsed : vs.TreeItemCollapsibleState.None,
+		);
+		const { reload } = entry;
+		const trigger = reload.reason === restartReasonSave ? "on save" : "manual";
+		const files = entry.changedFiles.length === 1 ? "1 file" : `${entry.changedFiles.length} files`;
+		const status = entry.rejectionReasons.length ? "rejected" : reload.error ? "failed" : formatDuration(reload.durationMs);
+
+		this.description = [entry.time.toLocaleTimeString(), status, trigger, files].join(" · ");
+		if (showSessionName)
+			this.description = `${entry.sessionName} · ${this.description}`;
+		this.tooltip = [
+			`${this.label} of ${entry.sessionName} at ${entry.time.toLocaleTimeString()}`,
+			`Triggered ${trigger}, took ${formatDuration(reload.durationMs)}`,
+			reload.error,
+		].filter((line) => line).join("\n");
+		this.iconPath = new vs.ThemeIcon(reload.error ? "error" : "check");
+	}
+}
+
+class RejectionReasonNode extends ReloadHistoryNode {
+	constructor(reason: ReloadRejectionReason) {
+		super(reason.message, vs.TreeItemCollapsibleState.None);
+		this.description = reason.className;
+		this.tooltip = reason.libraryUri ? `${reason.message}\n${reason.libraryUri}` : reason.message;
+		this.iconPath = new vs.ThemeIcon("warning");
+
+		const uri = reason.libraryUri ? vs.Uri.parse(reason.libraryUri) : undefined;
+		if (uri?.scheme === "file") {
+			this.command = {
+				arguments: [uri, reason.className ? findDeclarationLine(fsPath(uri), reason.className) : undefined],
+				command: "_dart.jumpToLineColInUri",
+				title: "",
+			};
+		}
+	}
+}
+
+class ReloadErrorNode extends ReloadHistoryNode {
+	constructor(error: string) {
+		super(error.trim().split("\n")[0], vs.TreeItemCollapsibleState.None);
+		this.tooltip = error;
+		this.iconPath = new vs.ThemeIcon("warning");
+	}
+}
+
+class ChangedFileNode extends ReloadHistoryNode {
+	constructor(file: string) {
+		super(vs.Uri.file(file), vs.TreeItemCollapsibleState.None);
+		this.description = vs.workspace.asRelativePath(path.dirname(file));
+		this.command = {
+			arguments: [vs.Uri.file(file)],
+			command: "vscode.open",
+			title: "",
+		};
+	}
+}
+
+/// Finds the (1-based) line that declares a class, enum or mixin so rejection reasons can link to it.
+function findDeclarationLine(file: string, className: string): number | undefined {
+	if (!fs.existsSync(file))
+		return undefined;
+	const declarationPattern = new RegExp(`^\\s*(?:abstract\\s+)?(?:class|enum|mixin)\\s+${className.replace(/\$/g, "\\$")}\\b`);
+	const line = fs.readFileSync(file, "utf8").split("\n").findIndex((l) => declarationPattern.test(l));
+	return line === -1 ? undefined : line + 1;
+}
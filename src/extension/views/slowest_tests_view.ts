@@ -0,0 +1,136 @@
+import * as vs from "vscode";
+import { TestStatus } from "../../shared/enums";
+import { DurationRegression, formatDuration, getDurationRegression, getSuiteDurationTrend, sparkline } from "../../shared/test/durations";
+import { SuiteData, TestNode, TestTreeModel } from "../../shared/test/test_model";
+import { disposeAll } from "../../shared/utils";
+import { sortBy } from "../../shared/utils/array";
+import { config } from "../config";
+
+type SlowestTestsSortOrder = "duration" | "regression" | "name";
+
+const sortOrders: Array<{ label: string, sortOrder: SlowestTestsSortOrder }> = [
+	{ label: "Duration", sortOrder: "duration" },
+	{ label: "Increase over median duration", sortOrder: "regression" },
+	{ label: "Name", sortOrder: "name" },
+];
+
+export class SlowestTestsProvider implements vs.Disposable, vs.TreeDataProvider<SlowestTestsNode> {
+	private disposables: vs.Disposable[] = [];
+	private onDidChangeTreeDataEmitter: vs.EventEmitter<SlowestTestsNode | undefined> = new vs.EventEmitter<SlowestTestsNode | undefined>();
+	public readonly onDidChangeTreeData: vs.Event<SlowestTestsNode | undefined> = this.onDidChangeTreeDataEmitter.event;
+	private sortOrder: SlowestTestsSortOrder = "duration";
+	private refreshTimer: NodeJS.Timer | undefined;
+
+	constructor(private readonly data: TestTreeModel) {
+		// The model fires for every individual node change during a run, so batch them up.
+		this.disposables.push(data.onDidChangeTreeData.listen(() => this.scheduleRefresh()));
+		this.disposables.push(vs.workspace.onDidChangeConfiguration((e) => {
+			if (e.affectsConfiguration("dart.testDurationRegressionThreshold"))
+				this.onDidChangeTreeDataEmitter.fire(undefined);
+		}));
+		this.disposables.push(vs.commands.registerCommand("dart.sortSlowestTests", () => this.promptForSortOrder()));
+	}
+
+	public getTreeItem(element: SlowestTestsNode): vs.TreeItem {
+		return element;
+	}
+
+	public getChildren(element?: SlowestTestsNode): SlowestTestsNode[] {
+		const threshold = config.testDurationRegressionThreshold;
+		if (!element) {
+			const suites = Object.values(this.data.suites)
+				.map((suite) => new SlowestTestsSuiteNode(suite, this.getTests(suite), threshold))
+				.filter((node) => node.tests.length);
+			return this.sort(suites, (s) => s.duration, (s) => s.regressionCount, (s) => s.name);
+		} else if (element instanceof SlowestTestsSuiteNode) {
+			const tests = element.tests.map((test) => new SlowestTestNode(test, threshold));
+			return this.sort(tests, (t) => t.test.duration ?? 0, (t) => t.regression?.increasePercent ?? -Infinity, (t) => t.name);
+		}
+		return [];
+	}
+
+	private getTests(suite: SuiteData): TestNode[] {
+		return suite.getAllTests().filter((t) => t.duration !== undefined && t.status !== TestStatus.Skipped);
+	}
+
+	private sort<T extends SlowestTestsNode>(nodes: T[], getDuration: (node: T) => number, getRegression: (node: T) => number, getName: (node: T) => string): T[] {
+		switch (this.sortOrder) {
+			case "name":
+				return sortBy(nodes, (n) => getName(n).toLowerCase());
+			case "regression":
+				return sortBy(nodes, (n) => -getRegression(n));
+			default:
+				return sortBy(nodes, (n) => -getDuration(n));
+		}
+	}
+
+	private async promptForSortOrder(): Promise<void> {
+		const items = sortOrders.map((o) => ({ label: o.label, sortOrder: o.sortOrder, picked: o.sortOrder === this.sortOrder }));
+		const selection = await vs.window.showQuickPick(items, { placeHolder: "Sort tests by" });
+		if (!selection)
+			return;
+		this.sortOrder = selection.sortOrder;
+		this.onDidChangeTreeDataEmitter.fire(undefined);
+	}
+
+	private scheduleRefresh() {
+		if (this.refreshTimer)
+			return;
+		this.refreshTimer = setTimeout(() => {
+			this.refreshTimer = undefined;
+			this.onDidChangeTreeDataEmitter.fire(undefined);
+		}, 500);
+	}
+
+	public dispose(): any {
+		if (this.refreshTimer)
+			clearTimeout(this.refreshTimer);
+		disposeAll(this.disposables);
+	}
+}
+
+export abstract class SlowestTestsNode extends vs.TreeItem { }
+
+class SlowestTestsSuiteNode extends SlowestTestsNode {
+	public readonly name: string;
+	public readonly duration: number;
+	public readonly regressionCount: number;
+
+	constructor(suite: SuiteData, public readonly tests: TestNode[], threshold: number) {
+		super(vs.workspace.asRelativePath(suite.path, false), vs.TreeItemCollapsibleState.Collapsed);
+		this.name = vs.workspace.asRelativePath(suite.path, false);
+		this.resourceUri = vs.Uri.file(suite.path);
+		this.duration = tests.map((t) => t.duration ?? 0).reduce((total, value) => total + value, 0);
+		this.regressionCount = tests.filter((t) => getDurationRegression(t, threshold)).length;
+
+		const trend = getSuiteDurationTrend(suite);
+		this.description = trend.length > 1 ? `${formatDuration(this.duration)} ${sparkline(trend)}` : formatDuration(this.duration);
+		this.tooltip = trend.length > 1
+			? `Recent runs (oldest first): ${trend.map(formatDuration).join(", ")}`
+			: undefined;
+		if (this.regressionCount)
+			this.description += ` (${this.regressionCount} slower than usual)`;
+	}
+}
+
+class SlowestTestNode extends SlowestTestsNode {
+	public readonly name: string;
+	public readonly regression: DurationRegression | undefined;
+
+	constructor(public readonly test: TestNode, threshold: number) {
+		super(test.name ?? "<unnamed>", vs.TreeItemCollapsibleState.None);
+		this.name = test.name ?? "<unnamed>";
+		this.regression = getDurationRegression(test, threshold);
+		this.description = this.regression
+			? `${formatDuration(test.duration ?? 0)} (median ${formatDuration(this.regression.median)}, +${Math.round(this.regression.increasePercent)}%)`
+			: formatDuration(test.duration ?? 0);
+		this.iconPath = this.regression ? new vs.ThemeIcon("warning", new vs.ThemeColor("list.warningForeground")) : undefined;
+		this.command = test.path
+			? {
+				arguments: [vs.Uri.file(test.path), test.line, test.column],
+				command: "_dart.jumpToLineColInUri",
+				title: "",
+			}
+			: undefined;
+	}
+}
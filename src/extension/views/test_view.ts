@@ -1,35 +1,53 @@
+import * as fs from "fs";
 import * as path from "path";
 import * as vs from "vscode";
 import { FlutterCapabilities } from "../../shared/capabilities/flutter";
-import { DART_TEST_CAN_RUN_SKIPPED_CONTEXT, DART_TEST_CONTAINER_NODE_WITH_FAILURES_CONTEXT, DART_TEST_CONTAINER_NODE_WITH_SKIPS_CONTEXT, DART_TEST_GROUP_NODE_CONTEXT, DART_TEST_SUITE_NODE_CONTEXT, DART_TEST_TEST_NODE_CONTEXT } from "../../shared/constants";
+import { DART_TEST_CAN_RUN_SKIPPED_CONTEXT, DART_TEST_CONTAINER_NODE_WITH_FAILURES_CONTEXT, DART_TEST_CONTAINER_NODE_WITH_SKIPS_CONTEXT, DART_TEST_GROUP_NODE_CONTEXT, DART_TEST_SUITE_NODE_CONTEXT, DART_TEST_TEST_NODE_CONTEXT, DART_TEST_TEST_NODE_WITH_EXPECT_FAILURE_CONTEXT, DART_TEST_TEST_NODE_WITH_GOLDEN_FAILURE_CONTEXT } from "../../shared/constants";
 import { TestStatus } from "../../shared/enums";
 import { TestSessionCoordinator } from "../../shared/test/coordinator";
-import { GroupNode, SuiteNode, TestContainerNode, TestNode, TestTreeModel, TreeNode } from "../../shared/test/test_model";
+import { formatValueForDiff } from "../../shared/test/expect_failure";
+import { toJUnitXml, toMarkdownSummary } from "../../shared/test/export";
+import { GoldenFailure, parseGoldenFailures } from "../../shared/test/golden_failures";
+import { GroupNode, SuiteData, SuiteNode, TestContainerNode, TestNode, TestRunResult, TestTreeModel, TreeNode } from "../../shared/test/test_model";
 import { ErrorNotification, PrintNotification } from "../../shared/test_protocol";
-import { disposeAll } from "../../shared/utils";
+import { disposeAll, uniq } from "../../shared/utils";
 import { brightRed, yellow } from "../../shared/utils/colors";
 import { fsPath, getRandomInt } from "../../shared/utils/fs";
-import { getLaunchConfig } from "../../shared/utils/test";
+import { getLaunchConfig, removeTestNameFilters } from "../../shared/utils/test";
 import { extensionPath } from "../../shared/vscode/extension_utils";
+import { getDartWorkspaceFolders } from "../../shared/vscode/utils";
+import { Context } from "../../shared/vscode/workspace";
 import { config } from "../config";
 import { isInsideFlutterProject } from "../utils";
 import { writeToPseudoTerminal } from "../utils/vscode/terminals";
+import { GoldenFailureView } from "./golden_failure_view";
 
 type SuiteList = [SuiteNode, string[]];
 
+const testDiffScheme = "dart-test-diff";
+
 export class TestResultsProvider implements vs.Disposable, vs.TreeDataProvider<TreeNode> {
 	private disposables: vs.Disposable[] = [];
 	private onDidChangeTreeDataEmitter: vs.EventEmitter<TreeNode | undefined> = new vs.EventEmitter<TreeNode | undefined>();
 	public readonly onDidChangeTreeData: vs.Event<TreeNode | undefined> = this.onDidChangeTreeDataEmitter.event;
 	private currentTestTerminal: [vs.Terminal, vs.EventEmitter<string>] | undefined;
 	private readonly treeItemBuilder: TreeItemBuilder;
+	private readonly diffContents = new Map<string, string>();
+	private diffCount = 0;
+	private persistResultsTimer: NodeJS.Timer | undefined;
+	private readonly goldenFailureView = new GoldenFailureView();
 
-	constructor(private readonly data: TestTreeModel, private readonly coordinator: TestSessionCoordinator, private readonly flutterCapabilities: FlutterCapabilities) {
+	constructor(private readonly data: TestTreeModel, private readonly coordinator: TestSessionCoordinator, private readonly flutterCapabilities: FlutterCapabilities, private readonly context: Context) {
 		this.treeItemBuilder = new TreeItemBuilder(flutterCapabilities);
+		// Restore results from the previous session so that failures can be re-run after a reload.
+		const previousResults = context.testResults;
+		if (previousResults)
+			data.restore(previousResults);
 		this.disposables.push(data.onDidChangeTreeData.listen((node) => this.onDidChangeTreeDataEmitter.fire(node)));
 		this.disposables.push(vs.workspace.onDidChangeConfiguration((e) => this.handleConfigChange(e)));
 
 		this.disposables.push(vs.debug.onDidReceiveDebugSessionCustomEvent((e) => this.handleDebugSessionCustomEvent(e)));
+		this.disposables.push(vs.debug.onDidStartDebugSession((session) => this.handleDebugSessionStart(session)));
 		this.disposables.push(vs.debug.onDidTerminateDebugSession((session) => this.handleDebugSessionEnd(session)));
 		this.disposables.push(vs.commands.registerCommand("_dart.toggleSkippedTestVisibilityOff", () => config.setShowSkippedTests(false)));
 		this.disposables.push(vs.commands.registerCommand("_dart.toggleSkippedTestVisibilityOn", () => config.setShowSkippedTests(true)));
@@ -41,13 +59,17 @@ export class TestResultsProvider implements vs.Disposable, vs.TreeDataProvider<T
 		this.disposables.push(vs.commands.registerCommand("dart.startWithoutDebuggingFailedTests", (treeNode: SuiteNode | GroupNode | TestNode) => this.runTests(treeNode, this.getTestNames(treeNode, TestStatus.Failed), false, false, false)));
 		this.disposables.push(vs.commands.registerCommand("dart.runAllSkippedTestsWithoutDebugging", () => this.runAllSkippedTests()));
 		this.disposables.push(vs.commands.registerCommand("dart.runAllFailedTestsWithoutDebugging", () => this.runAllFailedTests()));
+		this.disposables.push(vs.commands.registerCommand("dart.loadTestResultsFromFile", () => this.loadResultsFromFile()));
+		this.disposables.push(vs.commands.registerCommand("dart.exportTestResults", () => this.exportResults()));
+		this.disposables.push(vs.commands.registerCommand("_dart.runTestSuites", (suitePaths: string[]) => this.runSuites(suitePaths)));
 
 		this.disposables.push(vs.commands.registerCommand("dart.clearTestResults", () => {
 			// The command shouldn't ordinarily be available in debug mode, but check just in case it was dynamically invoked.
 			if (vs.debug.activeDebugSession)
 				return;
 
-			return this.data.clearAllResults();
+			this.data.clearAllResults();
+			this.context.testResults = undefined;
 		}));
 
 		this.disposables.push(vs.commands.registerCommand("_dart.displaySuite", (treeNode: SuiteNode) => vs.commands.executeCommand("_dart.jumpToLineColInUri", vs.Uri.file(treeNode.suiteData.path))));
@@ -72,6 +94,17 @@ export class TestResultsProvider implements vs.Disposable, vs.TreeDataProvider<T
 			);
 		}));
 		this.disposables.push(vs.commands.registerCommand("_dart.displayTestOutput", this.writeTestOutput, this));
+		this.disposables.push(vs.commands.registerCommand("dart.showTestFailureDiff", (treeNode: TestNode) => this.showFailureDiff(treeNode)));
+		this.disposables.push(vs.commands.registerCommand("dart.showGoldenFailure", (treeNode: TestNode) => this.showGoldenFailure(treeNode)));
+		this.disposables.push(vs.commands.registerCommand("dart.acceptNewGoldens", (treeNode: TestNode) => this.acceptNewGoldens(treeNode)));
+		this.disposables.push(this.goldenFailureView);
+		this.disposables.push(vs.workspace.registerTextDocumentContentProvider(testDiffScheme, {
+			provideTextDocumentContent: (uri) => this.diffContents.get(uri.toString()),
+		}));
+		this.disposables.push(vs.workspace.onDidCloseTextDocument((document) => {
+			if (document.uri.scheme === testDiffScheme)
+				this.diffContents.delete(document.uri.toString());
+		}));
 	}
 
 	private handleConfigChange(e: vs.ConfigurationChangeEvent) {
@@ -83,8 +116,69 @@ export class TestResultsProvider implements vs.Disposable, vs.TreeDataProvider<T
 		this.coordinator.handleDebugSessionCustomEvent(e);
 	}
 
+	public handleDebugSessionStart(session: vs.DebugSession) {
+		if (session.configuration.testRetryAttempt)
+			this.coordinator.flagRetrySession(session.id);
+	}
+
 	public handleDebugSessionEnd(session: vs.DebugSession) {
-		this.coordinator.handleDebugSessionEnd(session.id);
+		const wasTerminated = this.coordinator.wasTerminated(session.id);
+		const suites = this.coordinator.handleDebugSessionEnd(session.id);
+		// Only sessions that ran tests own suites, so other sessions have no results to persist.
+		if (suites.length)
+			this.schedulePersistResults();
+		// If the user stopped the run, they don't want it to continue with retries.
+		if (!wasTerminated)
+			this.retryFailedTests(session, suites);
+	}
+
+	/// Persists the results shortly after the last session ends, so that several sessions
+	/// ending together (such as shards or retries) only serialize the results once.
+	private schedulePersistResults() {
+		if (this.persistResultsTimer)
+			clearTimeout(this.persistResultsTimer);
+		this.persistResultsTimer = setTimeout(() => {
+			this.persistResultsTimer = undefined;
+			this.context.testResults = this.data.serialize();
+		}, 1000);
+	}
+
+	/// Starts new sessions to re-run any tests that failed in the given session's suites if
+	/// the session was launched with retryFailedTests and has attempts remaining.
+	private retryFailedTests(session: vs.DebugSession, suites: SuiteData[]) {
+		const retryFailedTests: number = session.configuration.retryFailedTests ?? 0;
+		const previousAttempt: number = session.configuration.testRetryAttempt ?? 0;
+		const attempt = previousAttempt + 1;
+		if (attempt > retryFailedTests)
+			return;
+
+		for (const suite of suites) {
+			// Only tests that failed in this run (and not previous runs) should be retried.
+			const failedTestNames = uniq(suite.getAllTests()
+				.filter((t) => !t.isStale && t.status === TestStatus.Failed && t.name !== undefined)
+				.map((t) => t.name!));
+			if (!failedTestNames.length)
+				continue;
+
+			// Keep the original configuration (such as tags and defines) but replace any name
+			// filters, since they would be combined with ours.
+			const template = {
+				args: session.configuration.args,
+				cwd: session.configuration.cwd,
+				env: session.configuration.env,
+				retryFailedTests,
+				testRetryAttempt: attempt,
+				toolArgs: removeTestNameFilters(session.configuration.toolArgs ?? []),
+			};
+			// tslint:disable-next-line: no-floating-promises
+			vs.debug.startDebugging(
+				session.workspaceFolder,
+				{
+					...getLaunchConfig(!!session.configuration.noDebug, suite.path, failedTestNames, false, false, template),
+					name: `Tests ${path.basename(suite.path)} (retry ${attempt} of ${retryFailedTests})`,
+				},
+			);
+		}
 	}
 
 	private async runAllSkippedTests(): Promise<void> {
@@ -95,6 +189,74 @@ export class TestResultsProvider implements vs.Disposable, vs.TreeDataProvider<T
 		await this.runAllTests(TestStatus.Failed);
 	}
 
+	private async loadResultsFromFile(): Promise<void> {
+		const files = await vs.window.showOpenDialog({
+			canSelectMany: false,
+			filters: { "Test Results": ["json", "jsonl", "log", "txt"], "All Files": ["*"] },
+			openLabel: "Load test results",
+		});
+		if (!files || files.length !== 1)
+			return;
+
+		const resultsFile = fsPath(files[0]);
+		let lines: string[];
+		try {
+			lines = fs.readFileSync(resultsFile).toString().split(/\r?\n/);
+		} catch (e) {
+			vs.window.showErrorMessage(`Unable to read test results: ${e}`);
+			return;
+		}
+
+		const suiteCount = await this.coordinator.replayNotifications(lines, (suitePath) => resolveSuitePath(suitePath, resultsFile));
+		if (!suiteCount) {
+			vs.window.showWarningMessage(`No test results were found in ${path.basename(resultsFile)}. The file should be output from the JSON reporter.`);
+			return;
+		}
+		this.context.testResults = this.data.serialize();
+	}
+
+	private async exportResults(): Promise<void> {
+		const suites = Object.values(this.data.suites);
+		if (!suites.length) {
+			vs.window.showInformationMessage("There are no test results to export.");
+			return;
+		}
+
+		const formats = [
+			{ label: "JUnit XML", format: "junit" as const },
+			{ label: "Markdown Summary", format: "markdown" as const },
+			{ label: "Copy Markdown Summary to Clipboard", format: "clipboard" as const },
+		];
+		const selection = await vs.window.showQuickPick(formats, { placeHolder: "Select a format to export test results as" });
+		if (!selection)
+			return;
+
+		const getSuiteName = (suitePath: string) => vs.workspace.asRelativePath(suitePath, false);
+		if (selection.format === "clipboard") {
+			await vs.env.clipboard.writeText(toMarkdownSummary(suites, getSuiteName));
+			vs.window.setStatusBarMessage("Test results summary copied to clipboard", 3000);
+			return;
+		}
+
+		const isJUnit = selection.format === "junit";
+		const workspaceFolder = getDartWorkspaceFolders()[0];
+		const file = await vs.window.showSaveDialog({
+			defaultUri: workspaceFolder ? vs.Uri.file(path.join(fsPath(workspaceFolder.uri), isJUnit ? "test_results.xml" : "test_results.md")) : undefined,
+			filters: isJUnit ? { "JUnit XML": ["xml"] } : { Markdown: ["md"] },
+			saveLabel: "Export test results",
+		});
+		if (!file)
+			return;
+
+		try {
+			fs.writeFileSync(fsPath(file), isJUnit ? toJUnitXml(suites, getSuiteName) : toMarkdownSummary(suites, getSuiteName));
+		} catch (e) {
+			vs.window.showErrorMessage(`Unable to export test results: ${e}`);
+			return;
+		}
+		vs.window.setStatusBarMessage(`Test results exported to ${fsPath(file)}`, 5000);
+	}
+
 	private async runAllTests(onlyOfType: TestStatus): Promise<void> {
 		const topLevelNodes = this.getChildren() || [];
 		const suiteList = topLevelNodes
@@ -126,14 +288,51 @@ export class TestResultsProvider implements vs.Disposable, vs.TreeDataProvider<T
 		);
 	}
 
-	private async runTests(treeNode: GroupNode | SuiteNode | TestNode, testNames: string[] | undefined, debug: boolean, suppressPromptOnErrors: boolean, runSkippedTests: boolean, token?: vs.CancellationToken) {
+	/// Runs whole suites (without debugging), including those that are not yet in the tree.
+	///
+	/// If a cancellation token is supplied, the caller controls cancellation so progress is shown
+	/// in the status bar instead of a cancellable notification.
+	public async runSuites(suitePaths: string[], cancellationToken?: vs.CancellationToken): Promise<void> {
+		if (suitePaths.length === 0)
+			return;
+
+		const percentProgressPerSuite = 99 / suitePaths.length;
+		await vs.window.withProgress(
+			{
+				cancellable: !cancellationToken,
+				location: cancellationToken ? vs.ProgressLocation.Window : vs.ProgressLocation.Notification,
+				title: `Running ${suitePaths.length} test ${suitePaths.length === 1 ? "suite" : "suites"}`,
+			},
+			async (progress, progressToken) => {
+				const token = cancellationToken ?? progressToken;
+				progress.report({ increment: 1 });
+				for (const suitePath of suitePaths) {
+					if (token.isCancellationRequested)
+						break;
+					// Don't add suites to the model until results arrive, in case the run is cancelled.
+					const suite = this.data.suites[suitePath] ?? new SuiteData(suitePath, isInsideFlutterProject(vs.Uri.file(suitePath)));
+					const suiteName = path.basename(suitePath);
+					progress.report({ message: suiteName });
+					await this.runTests(suite.node, undefined, false, true, false, token);
+					progress.report({ message: suiteName, increment: percentProgressPerSuite });
+				}
+			},
+		);
+	}
+
+	private async runTests(treeNode: GroupNode | SuiteNode | TestNode, testNames: string[] | undefined, debug: boolean, suppressPromptOnErrors: boolean, runSkippedTests: boolean, token?: vs.CancellationToken, launchTemplate?: any) {
 		const subs: vs.Disposable[] = [];
 		return new Promise<void>(async (resolve, reject) => {
 			// Construct a unique ID for this session so we can track when it completes.
 			const dartCodeDebugSessionID = `session-${getRandomInt(0x1000, 0x10000).toString(16)}`;
 			if (token) {
 				subs.push(vs.debug.onDidStartDebugSession((e) => {
-					if (e.configuration.dartCodeDebugSessionID === dartCodeDebugSessionID)
+					if (e.configuration.dartCodeDebugSessionID !== dartCodeDebugSessionID)
+						return;
+					// The token may have been cancelled while the session was starting.
+					if (token.isCancellationRequested)
+						e.customRequest("disconnect");
+					else
 						subs.push(token.onCancellationRequested(() => e.customRequest("disconnect")));
 				}));
 			}
@@ -155,6 +354,7 @@ export class TestResultsProvider implements vs.Disposable, vs.TreeDataProvider<T
 						testNames,
 						treeNode instanceof GroupNode,
 						shouldRunSkippedTests,
+						launchTemplate,
 					),
 					name: `Tests ${path.basename(programPath)}`,
 				}
@@ -208,6 +408,47 @@ export class TestResultsProvider implements vs.Disposable, vs.TreeDataProvider<T
 		this.currentTestTerminal = writeToPseudoTerminal(messages);
 	}
 
+	private async showFailureDiff(treeNode: TestNode): Promise<void> {
+		const failure = treeNode.expectFailure;
+		if (!failure) {
+			vs.window.showInformationMessage("This test has no expect failure to compare.");
+			return;
+		}
+
+		// Each diff gets new URIs so that editors already open for earlier diffs keep their contents.
+		const id = ++this.diffCount;
+		const expectedUri = vs.Uri.parse(`${testDiffScheme}:/${id}/Expected`);
+		const actualUri = vs.Uri.parse(`${testDiffScheme}:/${id}/Actual`);
+		this.diffContents.set(expectedUri.toString(), formatValueForDiff(failure.expected));
+		this.diffContents.set(actualUri.toString(), formatValueForDiff(failure.actual));
+
+		const title = `${treeNode.name ?? "<unnamed>"} (Expected ↔ Actual)`;
+		await vs.commands.executeCommand("vscode.diff", expectedUri, actualUri, title);
+	}
+
+	private async showGoldenFailure(treeNode: TestNode): Promise<void> {
+		const failures = getGoldenFailures(treeNode);
+		const failure = failures.length > 1
+			? (await vs.window.showQuickPick(
+				failures.map((f) => ({ description: f.message, failure: f, label: f.golden })),
+				{ placeHolder: "Select a golden file failure to view" },
+			))?.failure
+			: failures[0];
+		if (!failure)
+			return;
+
+		this.goldenFailureView.show(treeNode.name ?? "<unnamed>", failure, () => this.acceptNewGoldens(treeNode));
+	}
+
+	/// Re-runs a single test with --update-goldens so its golden files are replaced with the current output.
+	private async acceptNewGoldens(treeNode: TestNode): Promise<void> {
+		await this.runTests(treeNode, this.getTestNames(treeNode), false, true, false, undefined, { toolArgs: ["--update-goldens"] });
+		if (treeNode.status === TestStatus.Passed)
+			vs.window.showInformationMessage(`Updated golden files for "${treeNode.name}".`);
+		else
+			vs.window.showWarningMessage(`"${treeNode.name}" did not pass when updating golden files. Check the test output for details.`);
+	}
+
 	private getColoredTestOutput(event: PrintNotification | ErrorNotification) {
 		let output: string | undefined;
 		if (event.type === "error") {
@@ -285,10 +526,37 @@ export class TestResultsProvider implements vs.Disposable, vs.TreeDataProvider<T
 	}
 
 	public dispose(): any {
+		// Don't lose results that were waiting to be persisted.
+		if (this.persistResultsTimer) {
+			clearTimeout(this.persistResultsTimer);
+			this.context.testResults = this.data.serialize();
+		}
 		disposeAll(this.disposables);
 	}
 }
 
+/// Resolves a (possibly relative) suite path from a saved results file to a path on disk,
+/// since results from CI will be relative to the folder the tests were run in.
+function resolveSuitePath(suitePath: string, resultsFile: string): string {
+	if (path.isAbsolute(suitePath))
+		return suitePath;
+	const candidateFolders = [
+		...getDartWorkspaceFolders().map((wf) => fsPath(wf.uri)),
+		path.dirname(resultsFile),
+	];
+	const existingPath = candidateFolders.map((folder) => path.join(folder, suitePath)).find((p) => fs.existsSync(p));
+	return existingPath ?? path.join(candidateFolders[0], suitePath);
+}
+
+function getGoldenFailures(node: TestNode): GoldenFailure[] {
+	return parseGoldenFailures(node.outputEvents.map((e) => e.type === "error" ? (e as ErrorNotification).error : (e as PrintNotification).message));
+}
+
+function formatTestRunResult(result: TestRunResult): string {
+	const duration = result.duration !== undefined ? ` in ${result.duration}ms` : "";
+	return `${TestStatus[result.status].toLowerCase()}${duration}${result.isRetry ? " (retry)" : ""}`;
+}
+
 function getIconPath(status: TestStatus, isStale: boolean): vs.Uri | undefined {
 	let file: string | undefined;
 	// TODO: Should we have faded icons for stale versions?
@@ -351,6 +619,10 @@ class TreeItemBuilder {
 		treeItem.resourceUri = vs.Uri.file(node.suiteData.path);
 		treeItem.iconPath = getIconPath(node.status, node.isStale);
 		treeItem.description = node.description;
+		if (node.isFlaky) {
+			treeItem.description = node.description ? `${node.description} (flaky)` : "flaky";
+			treeItem.tooltip = `This test has both passed and failed recently:\n${node.history.map(formatTestRunResult).join("\n")}`;
+		}
 		treeItem.command = { command: "_dart.displayTest", arguments: [node], title: "" };
 		return treeItem;
 	}
@@ -369,6 +641,12 @@ class TreeItemBuilder {
 		else
 			contexts = `${DART_TEST_TEST_NODE_CONTEXT} `;
 
+		if (node instanceof TestNode && node.expectFailure)
+			contexts += `${DART_TEST_TEST_NODE_WITH_EXPECT_FAILURE_CONTEXT} `;
+
+		if (node instanceof TestNode && getGoldenFailures(node).length)
+			contexts += `${DART_TEST_TEST_NODE_WITH_GOLDEN_FAILURE_CONTEXT} `;
+
 		if (node instanceof TestContainerNode) {
 			if (node.hasStatus(TestStatus.Failed))
 				contexts += `${DART_TEST_CONTAINER_NODE_WITH_FAILURES_CONTEXT} `;
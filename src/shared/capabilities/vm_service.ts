@@ -6,6 +6,7 @@ export class VmServiceCapabilities {
 	constructor(public version: string) { }
 
 	get hasInvoke() { return versionIsAtLeast(this.version, "3.10.0"); }
+	get hasIdentityHashCode() { return versionIsAtLeast(this.version, "3.51.0"); }
 	get hasLoggingStream() { return versionIsAtLeast(this.version, "3.17.0"); }
 	get serviceStreamIsPublic() { return versionIsAtLeast(this.version, "3.22.0"); }
 	get supportsGetStackLimit() { return versionIsAtLeast(this.version, "3.42.0"); }
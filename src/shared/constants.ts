@@ -43,6 +43,8 @@ export const DART_TEST_CONTAINER_NODE_WITH_FAILURES_CONTEXT = "dart-code:testCon
 export const DART_TEST_GROUP_NODE_CONTEXT = "dart-code:testGroupNode";
 export const DART_TEST_TEST_NODE_CONTEXT = "dart-code:testTestNode";
 export const DART_TEST_CAN_RUN_SKIPPED_CONTEXT = "dart-code:canRunSkipped";
+export const DART_TEST_TEST_NODE_WITH_EXPECT_FAILURE_CONTEXT = "dart-code:testNodeWithExpectFailure";
+export const DART_TEST_TEST_NODE_WITH_GOLDEN_FAILURE_CONTEXT = "dart-code:testNodeWithGoldenFailure";
 
 export const DART_DEP_PROJECT_NODE_CONTEXT = "dart-code:depProjectNode";
 export const DART_DEP_PACKAGE_NODE_CONTEXT = "dart-code:depPackageNode";
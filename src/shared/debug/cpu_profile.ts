@@ -0,0 +1,34 @@
+import { CpuProfile } from "./interfaces";
+
+export interface CallTreeNode {
+	functionIndex: number;
+	// The number of samples that include this node.
+	ticks: number;
+	// The number of samples where this node was the top of the stack.
+	selfTicks: number;
+	children: CallTreeNode[];
+}
+
+/// Builds a call tree from the samples in a profile. Top-down trees start from entry points and expand
+/// to callees. Bottom-up trees start from the functions at the top of the stack and expand to callers.
+export function buildCallTree(profile: CpuProfile, kind: "topDown" | "bottomUp"): CallTreeNode[] {
+	const root: CallTreeNode = { functionIndex: -1, ticks: 0, selfTicks: 0, children: [] };
+	for (const sample of profile.samples) {
+		// Sample stacks have the top of the stack first.
+		const stack = kind === "topDown" ? sample.slice().reverse() : sample;
+		let node = root;
+		for (let i = 0; i < stack.length; i++) {
+			let child = node.children.find((c) => c.functionIndex === stack[i]);
+			if (!child) {
+				child = { functionIndex: stack[i], ticks: 0, selfTicks: 0, children: [] };
+				node.children.push(child);
+			}
+			child.ticks++;
+			const isTopOfStack = kind === "topDown" ? i === stack.length - 1 : i === 0;
+			if (isTopOfStack)
+				child.selfTicks++;
+			node = child;
+		}
+	}
+	return root.children;
+}
@@ -4,6 +4,8 @@ import { WorkspaceConfig } from "../interfaces";
 export interface DartLaunchArgs {
 	args?: string[];
 	console?: "debugConsole" | "terminal";
+	collectCoverage?: boolean;
+	coverageFile?: string;
 	cwd?: string;
 	dartSdkPath: string;
 	debugExternalLibraries: boolean;
@@ -26,8 +28,10 @@ export interface DartLaunchArgs {
 	request: "launch" | "attach";
 	sendLogsToClient?: boolean;
 	serviceInfoFile?: string;
+	shards?: number;
 	showDartDeveloperLogs: boolean;
 	showMemoryUsage?: boolean;
+	stepHistorySize?: number;
 	toolEnv?: { [key: string]: string | undefined };
 	type: "dart";
 	useInspectorNotificationsForWidgetErrors?: boolean;
@@ -51,6 +55,64 @@ export interface DartVsCodeLaunchArgs extends DartLaunchArgs {
 	flutterPlatform?: "default" | "android-arm" | "android-arm64" | "android-x86" | "android-x64";
 }
 
+/// An allocation profile for an isolate, returned from the debug adapters
+/// `getAllocationProfile` custom request.
+export interface AllocationProfile {
+	isolateId: string;
+	isolateName: string;
+	classes: ClassAllocation[];
+}
+
+export interface ClassAllocation {
+	classId: string;
+	className: string;
+	libraryUri?: string;
+	instances: number;
+	bytes: number;
+}
+
+/// Live instances of a class, returned from the debug adapters `getInstances` custom request.
+export interface ClassInstances {
+	totalCount: number;
+	// Variables that can be expanded using the DAP `variables` request.
+	instances: Array<{ name: string, value: string, type?: string, variablesReference: number }>;
+}
+
+/// CPU samples for an isolate, returned from the debug adapters `stopCpuProfile` custom request.
+export interface CpuProfile {
+	isolateId: string;
+	// The sampling rate in microseconds.
+	samplePeriod: number;
+	functions: ProfiledFunction[];
+	// The call stack of each sample as indices into functions, with the top of the stack first.
+	samples: number[][];
+	// Samples for each line of the profiled functions, keyed by file path.
+	lineTicks: { [filePath: string]: LineTicks };
+}
+
+/// The number of samples for lines (1-based) in a file. Lines without samples are not included.
+export interface LineTicks {
+	[line: number]: { selfTicks: number, totalTicks: number };
+}
+
+export interface ProfiledFunction {
+	name: string;
+	// The number of samples where this function was at the top of the stack.
+	selfTicks: number;
+	// The number of samples where this function was anywhere on the stack.
+	totalTicks: number;
+	// The location of the function, if it's in a file that can be opened.
+	filePath?: string;
+	line?: number;
+	column?: number;
+}
+
+/// Coverage for lines (1-based) in a file, 1 if the line was executed and 0 if not. Lines that are
+/// not executable are not included.
+export interface LineCoverage {
+	[line: number]: number;
+}
+
 export interface FileLocation {
 	line: number;
 	column: number;
@@ -0,0 +1,15 @@
+import { DevicePreset } from "../interfaces";
+
+/// Builds the `flutter run` arguments for a device preset, skipping any that are already set
+/// in the launch configuration so that explicit configuration takes precedence.
+export function getDevicePresetToolArgs(preset: DevicePreset, existingArgs: string[]): string[] {
+	const args: string[] = [];
+	if (preset.flavor && !existingArgs.some((arg) => arg === "--flavor" || arg.startsWith("--flavor=")))
+		args.push("--flavor", preset.flavor);
+
+	for (const key of Object.keys(preset.dartDefines ?? {})) {
+		if (!existingArgs.some((arg) => arg.startsWith(`--dart-define=${key}=`)))
+			args.push(`--dart-define=${key}=${preset.dartDefines![key]}`);
+	}
+	return args;
+}
@@ -0,0 +1,134 @@
+import * as path from "path";
+
+export interface PubspecAssets {
+	/// Asset paths relative to the project root. Directories end with a slash.
+	assets: string[];
+	/// Font file paths relative to the project root.
+	fonts: string[];
+	/// Whether localizations are generated from ARB files (`flutter: generate: true`).
+	generatesLocalizations: boolean;
+}
+
+export type AssetChangeAction = "reload" | "restart";
+
+const defaultArbDir = "lib/l10n";
+const variantFolderPattern = /^\d+(\.\d+)?x$/;
+
+/// Reads the assets and fonts from the `flutter` section of a pubspec. This is line-based
+/// rather than a full YAML parser, but handles the forms used by `flutter create` and the
+/// Flutter docs:
+///
+///     flutter:
+///       generate: true
+///       assets:
+///         - assets/images/
+///         - path: assets/config.json
+///       fonts:
+///         - family: Roboto
+///           fonts:
+///             - asset: fonts/Roboto-Regular.ttf
+export function parsePubspecAssets(pubspec: string): PubspecAssets {
+	const result: PubspecAssets = { assets: [], fonts: [], generatesLocalizations: false };
+
+	let inFlutterSection = false;
+	let flutterKeyIndent: number | undefined;
+	let currentKey: string | undefined;
+	let assetIndent: number | undefined;
+	for (const rawLine of pubspec.replace(/\r\n/g, "\n").split("\n")) {
+		const line = rawLine.replace(/(^|\s)#.*$/, "").trimEnd();
+		if (!line.trim())
+			continue;
+
+		const indent = line.length - line.trimStart().length;
+		const content = line.trim();
+		if (indent === 0) {
+			inFlutterSection = content === "flutter:";
+			flutterKeyIndent = undefined;
+			currentKey = undefined;
+			continue;
+		}
+		if (!inFlutterSection)
+			continue;
+
+		// The first key inside the flutter section sets the indent for its keys.
+		if (flutterKeyIndent === undefined)
+			flutterKeyIndent = indent;
+		if (indent === flutterKeyIndent) {
+			const keyMatch = /^([\w-]+)\s*:\s*(.*)$/.exec(content);
+			currentKey = keyMatch?.[1];
+			assetIndent = undefined;
+			if (currentKey === "generate")
+				result.generatesLocalizations = keyMatch![2] === "true";
+			continue;
+		}
+
+		if (currentKey === "assets") {
+			// Skip anything nested inside an asset entry (such as a list of flavors).
+			assetIndent = assetIndent ?? indent;
+			const assetMatch = /^-\s*(?:path\s*:\s*)?(.+)$/.exec(content);
+			if (assetMatch && indent === assetIndent)
+				result.assets.push(unquote(assetMatch[1]));
+		} else if (currentKey === "fonts") {
+			const fontMatch = /^(?:-\s*)?asset\s*:\s*(.+)$/.exec(content);
+			if (fontMatch)
+				result.fonts.push(unquote(fontMatch[1]));
+		}
+	}
+
+	return result;
+}
+
+/// Reads the folder containing ARB files from an l10n.yaml file, if there is one.
+export function getArbDir(l10nYaml: string | undefined): string {
+	const match = l10nYaml ? /^arb-dir\s*:\s*(.+)$/m.exec(l10nYaml) : undefined;
+	return match ? unquote(match[1].replace(/\s#.*$/, "").trim()).replace(/\/$/, "") : defaultArbDir;
+}
+
+/// Decides what to do when a file that is not Dart code changes. Assets are synced to the device
+/// on both reload and restart, and reloading evicts them from the image and asset caches so a
+/// reload is enough. Fonts are only loaded when the app starts, so need a restart.
+export function getAssetChangeAction(relativePath: string, assets: PubspecAssets, arbDir: string): AssetChangeAction | undefined {
+	const file = relativePath.split(path.sep).join("/");
+	if (assets.fonts.includes(file))
+		return "restart";
+
+	// Localizations are regenerated from ARB files when reloading.
+	if (assets.generatesLocalizations && file.endsWith(".arb") && path.posix.dirname(file) === arbDir)
+		return "reload";
+
+	// Resolution-aware images are in folders like "2.0x" alongside the declared asset.
+	const segments = file.split("/");
+	const candidates = [file];
+	if (segments.length > 1 && variantFolderPattern.test(segments[segments.length - 2]))
+		candidates.push([...segments.slice(0, -2), segments[segments.length - 1]].join("/"));
+
+	for (const candidate of candidates) {
+		const folder = `${path.posix.dirname(candidate)}/`;
+		if (assets.assets.some((asset) => asset === candidate || asset === folder))
+			return "reload";
+	}
+	return undefined;
+}
+
+/// Builds glob patterns (relative to the project root) that match the files that may be assets, fonts
+/// or ARB files for a project, including resolution-aware variants of images.
+export function getAssetWatchPatterns(assets: PubspecAssets, arbDir: string): string[] {
+	const patterns: string[] = [];
+	for (const asset of assets.assets) {
+		if (asset.endsWith("/")) {
+			patterns.push(`${asset}**`);
+		} else {
+			const folder = path.posix.dirname(asset);
+			const prefix = folder === "." ? "" : `${folder}/`;
+			patterns.push(asset, `${prefix}*/${path.posix.basename(asset)}`);
+		}
+	}
+	patterns.push(...assets.fonts);
+	if (assets.generatesLocalizations)
+		patterns.push(`${arbDir}/*.arb`);
+	return patterns;
+}
+
+function unquote(value: string): string {
+	return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
@@ -0,0 +1,92 @@
+export type DeclarationKind = "class" | "enum" | "function" | "method" | "constructor" | "field" | "variable" | "other";
+
+/// A declaration in a Dart file, built from the document symbols provided by the analysis server.
+export interface Declaration {
+	name: string;
+	kind: DeclarationKind;
+	/// Any modifiers before the name (such as "static final"), taken from the line containing the name.
+	modifiers: string;
+	/// The source of the whole declaration.
+	text: string;
+	children: Declaration[];
+}
+
+/// Compares the declarations in a file at the time of the last reload with those after an edit and
+/// returns descriptions of changes that hot reload will accept but not apply to the running app, so a
+/// hot restart is required to see them.
+export function getChangesRequiringRestart(previous: Declaration[], current: Declaration[]): string[] {
+	const reasons: string[] = [];
+	const check = (previousDeclarations: Declaration[], currentDeclarations: Declaration[], container: Declaration | undefined) => {
+		for (const declaration of currentDeclarations) {
+			const previousDeclaration = previousDeclarations.find((d) => d.name === declaration.name && d.kind === declaration.kind);
+			// New declarations are fine, as are unchanged ones.
+			if (!previousDeclaration || previousDeclaration.text === declaration.text)
+				continue;
+
+			const reason = getReasonRestartIsRequired(previousDeclaration, declaration, container);
+			if (reason)
+				reasons.push(reason);
+			else if (declaration.kind === "class")
+				check(previousDeclaration.children, declaration.children, declaration);
+		}
+	};
+	check(previous, current, undefined);
+	return reasons;
+}
+
+function getReasonRestartIsRequired(previous: Declaration, current: Declaration, container: Declaration | undefined): string | undefined {
+	const isTopLevel = !container;
+	switch (current.kind) {
+		case "function":
+			return isTopLevel && current.name === "main" ? "main() changed" : undefined;
+		case "enum":
+			return `enum ${current.name} changed`;
+		case "class":
+			return getTypeParameters(previous) !== getTypeParameters(current)
+				? `type parameters of ${current.name} changed`
+				: undefined;
+		case "method":
+			return container && current.name === "initState" ? `${container.name}.initState() changed` : undefined;
+		case "field":
+		case "variable":
+			// Initializers for globals and statics are only run once so changes are not applied, except
+			// for consts which are always re-evaluated.
+			if (/\bconst\b/.test(current.modifiers) || getInitializer(previous) === getInitializer(current))
+				return undefined;
+			if (isTopLevel)
+				return `initializer of ${current.name} changed`;
+			if (/\bstatic\b/.test(current.modifiers))
+				return `initializer of ${container!.name}.${current.name} changed`;
+			return undefined;
+		default:
+			return undefined;
+	}
+}
+
+function getInitializer(declaration: Declaration): string | undefined {
+	const equalsIndex = declaration.text.indexOf("=");
+	return equalsIndex === -1 ? undefined : declaration.text.substring(equalsIndex + 1).trim();
+}
+
+/// Extracts the type parameters (including any bounds) that follow a class name, such as "<T extends List<int>>".
+function getTypeParameters(declaration: Declaration): string {
+	const text = declaration.text;
+	const nameIndex = text.search(new RegExp(`\\b${declaration.name.replace(/\$/g, "\\$")}\\b`));
+	if (nameIndex === -1)
+		return "";
+
+	let start = nameIndex + declaration.name.length;
+	while (start < text.length && /\s/.test(text[start]))
+		start++;
+	if (text[start] !== "<")
+		return "";
+
+	let depth = 0;
+	for (let i = start; i < text.length; i++) {
+		if (text[i] === "<")
+			depth++;
+		else if (text[i] === ">" && --depth === 0)
+			return text.substring(start, i + 1).replace(/\s+/g, " ");
+	}
+	return "";
+}
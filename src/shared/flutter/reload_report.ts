@@ -0,0 +1,58 @@
+const rejectedPrefixPattern = /^(?:Hot reload was rejected:|Reload rejected:)\s*/;
+const libraryPattern = /\s*Library:'([^']+)'/;
+const classPattern = /\s*Class: (\S+)/;
+
+export interface ReloadRejectionReason {
+	message: string;
+	libraryUri?: string;
+	className?: string;
+}
+
+/// Extracts the reasons the VM gave for rejecting a reload from the message Flutter
+/// returns for a failed reload. Each reason is on its own line, with class-level reasons
+/// including the library and class:
+///
+///     Reload rejected: Const class cannot become non-const: Library:'file:///app/lib/main.dart' Class: Foo
+///     Enum class cannot be redefined to be a non-enum class: Library:'file:///app/lib/main.dart' Class: Bar
+export function parseReloadRejectionReasons(message: string): ReloadRejectionReason[] {
+	if (!rejectedPrefixPattern.test(message.trimStart()))
+		return [];
+
+	const reasons: ReloadRejectionReason[] = [];
+	const lines = message.trimStart().replace(rejectedPrefixPattern, "").replace(/\r\n/g, "\n").split("\n");
+	for (let line of lines) {
+		line = line.trim();
+		if (!line)
+			continue;
+
+		const libraryMatch = libraryPattern.exec(line);
+		const classMatch = classPattern.exec(line);
+		const reasonMessage = line
+			.replace(libraryPattern, "")
+			.replace(classPattern, "")
+			.trim()
+			.replace(/:$/, "");
+		reasons.push({
+			className: classMatch?.[1],
+			libraryUri: libraryMatch?.[1],
+			message: reasonMessage,
+		});
+	}
+	return reasons;
+}
+
+export interface SessionReloadResult {
+	sessionName: string;
+	error?: string;
+}
+
+/// Builds the message shown after sending a hot reload or restart to several debug sessions (for
+/// example when an app is running on multiple devices), listing any sessions that failed.
+export function getMultiSessionReloadMessage(action: string, results: SessionReloadResult[]): { isFailure: boolean, message: string } {
+	const failures = results.filter((r) => r.error);
+	if (!failures.length)
+		return { isFailure: false, message: `${action} completed on ${results.length} sessions` };
+
+	const details = failures.map((f) => `${f.sessionName}: ${f.error}`).join("; ");
+	return { isFailure: true, message: `${action} failed on ${failures.length} of ${results.length} sessions. ${details}` };
+}
@@ -139,6 +139,13 @@ export interface PlatformEnabler {
 	platformType: f.PlatformType;
 }
 
+export interface DevicePresetSelector {
+	id?: undefined;
+	type: "device-preset";
+	platformType?: undefined;
+	preset: DevicePreset;
+}
+
 export interface FlutterCreateCommandArgs {
 	projectPath?: string;
 	projectName?: string;
@@ -153,6 +160,23 @@ export interface CustomEmulatorDefinition {
 	args?: string[];
 }
 
+/// A named device (or emulator to launch) along with arguments to use when running on it.
+export interface DevicePreset {
+	name: string;
+	deviceId?: string;
+	emulatorId?: string;
+	coldBoot?: boolean;
+	flavor?: string;
+	dartDefines?: { [key: string]: string };
+}
+
+/// The device, emulator or preset last selected in a workspace, so it can be selected again when it connects.
+export interface PersistedDeviceSelection {
+	deviceId?: string;
+	emulatorId?: string;
+	presetName?: string;
+}
+
 export interface Location {
 	startLine: number;
 	startColumn: number;
@@ -199,3 +223,11 @@ export interface WidgetErrorInspectData {
 	devToolsUrl: string;
 	inspectorReference: string;
 }
+
+export interface ReloadCompletedEvent {
+	hotRestart: boolean;
+	/// Why the reload happened (restartReasonSave or restartReasonManual), if known.
+	reason: string | undefined;
+	durationMs: number;
+	error: string | undefined;
+}
@@ -2,7 +2,8 @@ import { TestStatus } from "../enums";
 import { Event, EventEmitter } from "../events";
 import { IAmDisposable, Logger } from "../interfaces";
 import { ErrorNotification, GroupNotification, Notification, PrintNotification, SuiteNotification, TestDoneNotification, TestStartNotification } from "../test_protocol";
-import { disposeAll, uriToFilePath } from "../utils";
+import { disposeAll, notUndefined, uniq, uriToFilePath } from "../utils";
+import { parseExpectFailure } from "./expect_failure";
 import { GroupNode, SuiteData, SuiteNode, TestNode, TestTreeModel, TreeNode } from "./test_model";
 
 /// Handles results from a test debug session and provides them to the test model.
@@ -17,17 +18,55 @@ export class TestSessionCoordinator implements IAmDisposable {
 	/// A link between a suite path and the debug session ID that owns it.
 	private owningDebugSessions: { [key: string]: string | undefined } = {};
 
+	/// Used to create unique IDs to own suites that are replayed from files.
+	private replayCount = 0;
+
+	/// Debug sessions that are retrying failed tests from a previous session.
+	private retryDebugSessions = new Set<string>();
+
+	/// Debug sessions that are running tests in multiple shards.
+	private shardedDebugSessions = new Set<string>();
+
+	/// Debug sessions that were terminated (for example by the user) before the tests completed.
+	private terminatedDebugSessions = new Set<string>();
+
 	constructor(private readonly logger: Logger, private readonly data: TestTreeModel) { }
 
 	public handleDebugSessionCustomEvent(e: { session: { id: string }; event: string; body?: any }) {
 		if (e.event === "dart.testRunNotification") {
+			if (e.body.isSharded && e.session)
+				this.flagShardedSession(e.session.id);
 			// tslint:disable-next-line: no-floating-promises
 			// TODO: Why do we get no session in tests???
 			this.handleNotification(e.session?.id, e.body.suitePath, e.body.notification).catch((e) => this.logger.error(e));
+		} else if (e.event === "dart.terminationRequested" && e.session) {
+			this.terminatedDebugSessions.add(e.session.id);
 		}
 	}
 
-	public handleDebugSessionEnd(debugSessionID: string) {
+	/// Flags a debug session as retrying failed tests, so that its results are recorded
+	/// as retries in test history.
+	public flagRetrySession(debugSessionID: string) {
+		this.retryDebugSessions.add(debugSessionID);
+	}
+
+	/// Flags a debug session as running tests in multiple shards, so that the groups reported
+	/// by each shard are merged.
+	public flagShardedSession(debugSessionID: string) {
+		this.shardedDebugSessions.add(debugSessionID);
+	}
+
+	/// Whether the debug session was terminated before its tests completed.
+	public wasTerminated(debugSessionID: string): boolean {
+		return this.terminatedDebugSessions.has(debugSessionID);
+	}
+
+	/// Completes any suites owned by the debug session, returning them.
+	public handleDebugSessionEnd(debugSessionID: string): SuiteData[] {
+		this.retryDebugSessions.delete(debugSessionID);
+		this.terminatedDebugSessions.delete(debugSessionID);
+		this.shardedDebugSessions.delete(debugSessionID);
+
 		// Get the suite paths that have us as the owning debug session.
 		const suitePaths = Object.keys(this.owningDebugSessions).filter((suitePath) => {
 			const owningSessionID = this.owningDebugSessions[suitePath];
@@ -40,6 +79,70 @@ export class TestSessionCoordinator implements IAmDisposable {
 			this.owningDebugSessions[suitePath] = undefined;
 			delete this.owningDebugSessions[suitePath];
 		}
+
+		return suitePaths.map((suitePath) => this.data.suites[suitePath]).filter(notUndefined);
+	}
+
+	/// Replays a saved JSON reporter log (from `--reporter json` or `--file-reporter json:...`)
+	/// into the test model as if it had come from a debug session. Returns the number of suites
+	/// that were loaded.
+	public async replayNotifications(lines: string[], resolveSuitePath: (suitePath: string) => string): Promise<number> {
+		const notifications: Notification[] = [];
+		for (const line of lines) {
+			// Logs may contain other output (for example from pub) which we can skip.
+			if (!line.startsWith("{"))
+				continue;
+			try {
+				notifications.push(JSON.parse(line));
+			} catch (e) {
+				this.logger.warn(`Skipping unparsable line in test results: ${line}`);
+			}
+		}
+
+		// Unlike the debug adapter, the JSON reporter doesn't tell us the suite for each
+		// notification, so we have to track the IDs ourselves.
+		const suitePaths: { [suiteID: number]: string } = {};
+		const testSuiteIDs: { [testID: number]: number } = {};
+		for (const evt of notifications) {
+			if (evt.type === "suite") {
+				const suite = (evt as SuiteNotification).suite;
+				suite.path = resolveSuitePath(suite.path);
+				suitePaths[suite.id] = suite.path;
+			}
+		}
+
+		// Flag all suites as starting before we process any results, since this
+		// bumps the run number that all nodes are looked up by.
+		for (const suitePath of uniq(Object.values(suitePaths)))
+			this.data.flagSuiteStart(suitePath, false);
+
+		const replaySessionID = `replay-${++this.replayCount}`;
+		for (const evt of notifications) {
+			let suiteID: number | undefined;
+			switch (evt.type) {
+				case "suite":
+					suiteID = (evt as SuiteNotification).suite.id;
+					break;
+				case "group":
+					suiteID = (evt as GroupNotification).group.suiteID;
+					break;
+				case "testStart":
+					const test = (evt as TestStartNotification).test;
+					suiteID = testSuiteIDs[test.id] = test.suiteID;
+					break;
+				case "testDone":
+				case "print":
+				case "error":
+					suiteID = testSuiteIDs[(evt as TestDoneNotification | PrintNotification | ErrorNotification).testID];
+					break;
+			}
+			const suitePath = suiteID !== undefined ? suitePaths[suiteID] : undefined;
+			if (suitePath)
+				await this.handleNotification(replaySessionID, suitePath, evt);
+		}
+
+		this.handleDebugSessionEnd(replaySessionID);
+		return uniq(Object.values(suitePaths)).length;
 	}
 
 	public async handleNotification(debugSessionID: string | undefined, suitePath: string, evt: Notification): Promise<void> {
@@ -66,10 +169,10 @@ export class TestSessionCoordinator implements IAmDisposable {
 				this.handleTestStartNotifcation(suite, evt as TestStartNotification);
 				break;
 			case "testDone":
-				this.handleTestDoneNotification(suite, evt as TestDoneNotification);
+				this.handleTestDoneNotification(suite, evt as TestDoneNotification, !!debugSessionID && this.retryDebugSessions.has(debugSessionID));
 				break;
 			case "group":
-				this.handleGroupNotification(suite, evt as GroupNotification);
+				this.handleGroupNotification(suite, evt as GroupNotification, !!debugSessionID && this.shardedDebugSessions.has(debugSessionID));
 				break;
 			// We won't get notifications that aren't directly tied to Suites because
 			// of how the DA works.
@@ -140,6 +243,7 @@ export class TestSessionCoordinator implements IAmDisposable {
 
 		// Clear any test output from previous runs.
 		testNode.outputEvents.length = 0;
+		testNode.expectFailure = undefined;
 
 		testNode.status = TestStatus.Running;
 		this.data.updateNode(testNode);
@@ -148,7 +252,7 @@ export class TestSessionCoordinator implements IAmDisposable {
 			this.data.rebuildSuiteNode(suite);
 	}
 
-	private handleTestDoneNotification(suite: SuiteData, evt: TestDoneNotification) {
+	private handleTestDoneNotification(suite: SuiteData, evt: TestDoneNotification, isRetry: boolean) {
 		const testNode = suite.getCurrentTest(evt.testID);
 
 		testNode.hidden = evt.hidden;
@@ -170,6 +274,8 @@ export class TestSessionCoordinator implements IAmDisposable {
 			// other and then we'll get no time at the end.
 			// testNode.testStartTime = undefined;
 		}
+		if (!testNode.hidden)
+			testNode.recordResult(isRetry);
 
 		this.data.updateNode(testNode);
 		this.data.updateNode(testNode.parent);
@@ -181,10 +287,13 @@ export class TestSessionCoordinator implements IAmDisposable {
 		}
 	}
 
-	private handleGroupNotification(suite: SuiteData, evt: GroupNotification) {
+	private handleGroupNotification(suite: SuiteData, evt: GroupNotification, isSharded: boolean) {
+		const parent = evt.group.parentID ? suite.getMyGroup(suite.currentRunNumber, evt.group.parentID) : suite.node;
+		if (isSharded && !suite.getCurrentGroup(evt.group.id) && suite.reuseShardGroup(suite.currentRunNumber, evt.group, parent))
+			return;
+
 		const existingGroup = suite.getCurrentGroup(evt.group.id) || suite.reuseMatchingGroup(suite.currentRunNumber, evt.group);
 		const oldParent = existingGroup?.parent;
-		const parent = evt.group.parentID ? suite.getMyGroup(suite.currentRunNumber, evt.group.parentID) : suite.node;
 		const path = (evt.group.root_url || evt.group.url) ? uriToFilePath(evt.group.root_url || evt.group.url!) : undefined;
 		const line = evt.group.root_line || evt.group.line;
 		const column = evt.group.root_column || evt.group.column;
@@ -250,6 +359,8 @@ export class TestSessionCoordinator implements IAmDisposable {
 	private handleErrorNotification(suite: SuiteData, evt: ErrorNotification) {
 		const test = suite.getCurrentTest(evt.testID);
 		test.outputEvents.push(evt);
+		if (!test.expectFailure)
+			test.expectFailure = parseExpectFailure(evt.error);
 	}
 
 	public dispose(): any {
@@ -0,0 +1,70 @@
+import { notUndefined } from "../utils";
+import { SuiteData, TestNode } from "./test_model";
+
+/// The minimum number of previous durations required before a test can be considered to have regressed.
+const minimumHistoryForRegression = 3;
+/// Tests with a median duration below this are not flagged, since small variations in timing
+/// are large percentages of their duration.
+const minimumMedianForRegressionMs = 20;
+
+const sparklineCharacters = "▁▂▃▄▅▆▇█";
+
+export interface DurationRegression {
+	duration: number;
+	median: number;
+	// The percentage the latest duration is above the median.
+	increasePercent: number;
+}
+
+export function median(values: number[]): number | undefined {
+	if (!values.length)
+		return undefined;
+	const sorted = values.slice().sort((a, b) => a - b);
+	const mid = Math.floor(sorted.length / 2);
+	return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/// Returns the regression for a test if its most recent duration is more than thresholdPercent
+/// above the median of its previous durations.
+export function getDurationRegression(test: TestNode, thresholdPercent: number): DurationRegression | undefined {
+	const durations = test.history.map((r) => r.duration).filter(notUndefined);
+	if (durations.length <= minimumHistoryForRegression)
+		return undefined;
+
+	const duration = durations[durations.length - 1];
+	const previousMedian = median(durations.slice(0, -1));
+	if (!previousMedian || previousMedian < minimumMedianForRegressionMs)
+		return undefined;
+
+	const increasePercent = (duration - previousMedian) * 100 / previousMedian;
+	return increasePercent > thresholdPercent
+		? { duration, increasePercent, median: previousMedian }
+		: undefined;
+}
+
+/// Returns the total duration of each of the recent runs of a suite, oldest first, by summing the
+/// durations of its tests' results aligned from the most recent.
+export function getSuiteDurationTrend(suite: SuiteData): number[] {
+	const histories = suite.getAllTests().map((t) => t.history);
+	const runCount = Math.max(0, ...histories.map((h) => h.length));
+	const totals: number[] = [];
+	for (let runsAgo = runCount - 1; runsAgo >= 0; runsAgo--) {
+		totals.push(histories
+			.map((h) => h[h.length - 1 - runsAgo]?.duration ?? 0)
+			.reduce((total, value) => total + value, 0));
+	}
+	return totals;
+}
+
+export function sparkline(values: number[]): string {
+	const min = Math.min(...values);
+	const max = Math.max(...values);
+	const range = max - min;
+	return values
+		.map((v) => sparklineCharacters[range ? Math.round((v - min) / range * (sparklineCharacters.length - 1)) : 0])
+		.join("");
+}
+
+export function formatDuration(durationMs: number): string {
+	return durationMs < 1000 ? `${Math.round(durationMs)}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,140 @@
+// package:test indents continuation lines of each value to line up with the "Expected: " label.
+const valueIndent = " ".repeat("Expected: ".length);
+
+export interface ExpectFailure {
+	expected: string;
+	actual: string;
+	which?: string;
+}
+
+/// Parses the "Expected: / Actual: / Which:" output of a failed `expect` from a test error.
+export function parseExpectFailure(error: string): ExpectFailure | undefined {
+	const lines = error.replace(/\r\n/g, "\n").split("\n");
+	const expectedIndex = lines.findIndex((l) => l.startsWith("Expected: "));
+	if (expectedIndex === -1)
+		return undefined;
+
+	const expected = readValue(lines, expectedIndex, "Expected: ");
+	const actual = readValue(lines, expected.nextIndex, "  Actual: ");
+	if (actual.nextIndex === expected.nextIndex)
+		return undefined;
+	const which = readValue(lines, actual.nextIndex, "   Which: ");
+
+	return {
+		actual: actual.value,
+		expected: expected.value,
+		which: which.nextIndex !== actual.nextIndex ? which.value : undefined,
+	};
+}
+
+function readValue(lines: string[], index: number, label: string): { value: string, nextIndex: number } {
+	if (index >= lines.length || !lines[index].startsWith(label))
+		return { nextIndex: index, value: "" };
+
+	const valueLines = [lines[index].substring(label.length)];
+	index++;
+	while (index < lines.length && lines[index].startsWith(valueIndent)) {
+		valueLines.push(lines[index].substring(valueIndent.length));
+		index++;
+	}
+	return { nextIndex: index, value: valueLines.join("\n") };
+}
+
+/// Formats a value printed by package:matcher so that it can be usefully diffed, by converting
+/// string literals back to their raw text and putting collection items on their own lines.
+export function formatValueForDiff(value: string): string {
+	const stringValue = unquoteDartString(value);
+	if (stringValue !== undefined)
+		return stringValue;
+
+	// Simple values like numbers are wrapped in angle brackets.
+	if (value.startsWith("<") && value.endsWith(">") && !value.includes("\n"))
+		value = value.substring(1, value.length - 1);
+
+	if ((value.startsWith("[") || value.startsWith("{")) && !value.includes("\n"))
+		return prettyPrintCollection(value);
+
+	return value;
+}
+
+/// Converts a (possibly multi-line) string printed by package:matcher, such as
+///
+///     'first line\n'
+///       'second line'
+///
+/// back to its raw contents. Returns undefined if the value is not a string.
+function unquoteDartString(value: string): string | undefined {
+	const segments = value.split("\n").map((l) => l.trim());
+	if (!segments.every((s) => s.length >= 2 && s.startsWith("'") && s.endsWith("'")))
+		return undefined;
+
+	return segments
+		.map((s) => s.substring(1, s.length - 1))
+		.join("")
+		.replace(/\\(x[0-9a-fA-F]{2}|.)/g, (_, escaped: string) => {
+			switch (escaped[0]) {
+				case "n": return "\n";
+				case "r": return "\r";
+				case "t": return "\t";
+				case "f": return "\f";
+				case "b": return "\b";
+				case "v": return "\v";
+				case "x": return String.fromCharCode(parseInt(escaped.substring(1), 16));
+				default: return escaped;
+			}
+		});
+}
+
+/// Puts each item of a single-line list/set/map on its own line, indented by depth.
+function prettyPrintCollection(value: string): string {
+	let result = "";
+	let depth = 0;
+	let quote: string | undefined;
+	const newLine = () => `\n${"  ".repeat(depth)}`;
+	for (let i = 0; i < value.length; i++) {
+		const c = value[i];
+		if (quote) {
+			result += c;
+			if (c === "\\") {
+				result += value[++i] ?? "";
+			} else if (c === quote) {
+				quote = undefined;
+			}
+			continue;
+		}
+
+		switch (c) {
+			case "'":
+			case "\"":
+				quote = c;
+				result += c;
+				break;
+			case "[":
+			case "{":
+				// Leave empty collections on a single line.
+				if (value[i + 1] === "]" || value[i + 1] === "}") {
+					result += c;
+				} else {
+					depth++;
+					result += c + newLine();
+				}
+				break;
+			case "]":
+			case "}":
+				if (value[i - 1] !== "[" && value[i - 1] !== "{") {
+					depth = Math.max(0, depth - 1);
+					result += newLine();
+				}
+				result += c;
+				break;
+			case ",":
+				result += c + newLine();
+				if (value[i + 1] === " ")
+					i++;
+				break;
+			default:
+				result += c;
+		}
+	}
+	return result;
+}
@@ -0,0 +1,147 @@
+import { TestStatus } from "../enums";
+import { ErrorNotification, PrintNotification } from "../test_protocol";
+import { SuiteData, TestNode } from "./test_model";
+
+interface SuiteResults {
+	name: string;
+	tests: TestNode[];
+	passed: number;
+	failed: number;
+	skipped: number;
+	durationMs: number;
+}
+
+function hasResult(test: TestNode): boolean {
+	return test.status === TestStatus.Passed || test.status === TestStatus.Failed || test.status === TestStatus.Skipped;
+}
+
+/// Collects the tests with results for each suite. Tests that have never completed (for example
+/// those only discovered from the outline) are excluded since they have nothing to report, as are
+/// stale results (from previous runs, or restored from a previous session) since they may no longer
+/// be accurate.
+function getSuiteResults(suites: SuiteData[], getSuiteName: (suitePath: string) => string): SuiteResults[] {
+	return suites
+		.map((suite) => {
+			const tests = suite.getAllTests().filter((t) => !t.isStale && hasResult(t));
+			return {
+				durationMs: tests.map((t) => t.duration ?? 0).reduce((total, value) => total + value, 0),
+				failed: tests.filter((t) => t.status === TestStatus.Failed).length,
+				name: getSuiteName(suite.path),
+				passed: tests.filter((t) => t.status === TestStatus.Passed).length,
+				skipped: tests.filter((t) => t.status === TestStatus.Skipped).length,
+				tests,
+			};
+		})
+		.filter((suite) => suite.tests.length)
+		.sort((s1, s2) => s1.name.localeCompare(s2.name));
+}
+
+function getErrors(test: TestNode): ErrorNotification[] {
+	return test.outputEvents.filter((e): e is ErrorNotification => e.type === "error");
+}
+
+function getPrints(test: TestNode): PrintNotification[] {
+	return test.outputEvents.filter((e): e is PrintNotification => e.type === "print");
+}
+
+function escapeXml(input: string): string {
+	return input
+		// Strip characters that are not valid in XML 1.0 (such as ANSI escape codes).
+		.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+function formatSeconds(durationMs: number): string {
+	return (durationMs / 1000).toFixed(3);
+}
+
+/// Builds a JUnit XML report for the given suites. Suite paths are converted to class names
+/// in the same way as `package:junitreport` so results are comparable with CI.
+export function toJUnitXml(suites: SuiteData[], getSuiteName: (suitePath: string) => string): string {
+	const results = getSuiteResults(suites, getSuiteName);
+	const sum = (get: (suite: SuiteResults) => number) => results.map(get).reduce((total, value) => total + value, 0);
+
+	const xml = [
+		`<?xml version="1.0" encoding="UTF-8"?>`,
+		`<testsuites tests="${sum((s) => s.tests.length)}" failures="${sum((s) => s.failed)}" skipped="${sum((s) => s.skipped)}" time="${formatSeconds(sum((s) => s.durationMs))}">`,
+	];
+	for (const suite of results) {
+		const className = suite.name.replace(/\.dart$/, "").replace(/[\\/]/g, ".");
+		xml.push(`  <testsuite name="${escapeXml(suite.name)}" tests="${suite.tests.length}" failures="${suite.failed}" skipped="${suite.skipped}" time="${formatSeconds(suite.durationMs)}">`);
+		for (const test of suite.tests) {
+			xml.push(`    <testcase classname="${escapeXml(className)}" name="${escapeXml(test.name ?? "<unnamed>")}" time="${formatSeconds(test.duration ?? 0)}">`);
+			if (test.status === TestStatus.Skipped) {
+				xml.push(`      <skipped/>`);
+			} else if (test.status === TestStatus.Failed) {
+				// JUnit consumers expect at most one failure per test case, so all errors are combined into one.
+				const errors = getErrors(test);
+				if (errors.length) {
+					const element = errors.every((e) => e.isFailure) ? "failure" : "error";
+					const message = errors[0].error.split("\n")[0];
+					const text = errors.map((e) => `${e.error}\n${e.stackTrace}`).join("\n\n");
+					xml.push(`      <${element} message="${escapeXml(message)}">${escapeXml(text)}</${element}>`);
+				} else {
+					xml.push(`      <failure message="Test failed"/>`);
+				}
+			}
+			const prints = getPrints(test);
+			if (prints.length)
+				xml.push(`      <system-out>${escapeXml(prints.map((p) => p.message).join("\n"))}</system-out>`);
+			xml.push(`    </testcase>`);
+		}
+		xml.push(`  </testsuite>`);
+	}
+	xml.push(`</testsuites>`);
+	return xml.join("\n") + "\n";
+}
+
+/// Builds a Markdown summary of the results for the given suites suitable for including
+/// in a pull request description.
+export function toMarkdownSummary(suites: SuiteData[], getSuiteName: (suitePath: string) => string): string {
+	const results = getSuiteResults(suites, getSuiteName);
+	const sum = (get: (suite: SuiteResults) => number) => results.map(get).reduce((total, value) => total + value, 0);
+
+	const md = [
+		`## Test Results`,
+		``,
+		`${sum((s) => s.passed)} passed, ${sum((s) => s.failed)} failed, ${sum((s) => s.skipped)} skipped in ${formatSeconds(sum((s) => s.durationMs))}s`,
+		``,
+	];
+	const staleCount = suites.map((suite) => suite.getAllTests().filter((t) => t.isStale && hasResult(t)).length).reduce((total, value) => total + value, 0);
+	if (staleCount)
+		md.push(staleCount === 1 ? `_1 result from a previous run is not included._` : `_${staleCount} results from previous runs are not included._`, ``);
+	md.push(
+		`| Suite | Passed | Failed | Skipped | Time |`,
+		`| --- | ---: | ---: | ---: | ---: |`,
+	);
+	for (const suite of results)
+		md.push(`| ${escapeMarkdownTableCell(suite.name)} | ${suite.passed} | ${suite.failed} | ${suite.skipped} | ${formatSeconds(suite.durationMs)}s |`);
+
+	const failedSuites = results.filter((s) => s.failed);
+	if (failedSuites.length) {
+		md.push(``, `### Failures`);
+		for (const suite of failedSuites) {
+			for (const test of suite.tests.filter((t) => t.status === TestStatus.Failed)) {
+				md.push(``, `<details><summary>${escapeXml(suite.name)}: ${escapeXml(test.name ?? "<unnamed>")}</summary>`, ``);
+				const errors = getErrors(test).map((e) => e.error.trim());
+				const fence = getCodeFence(errors.join("\n"));
+				md.push(fence, ...errors, fence, ``, `</details>`);
+			}
+		}
+	}
+	return md.join("\n") + "\n";
+}
+
+/// Gets a code fence that is longer than any run of backticks in the content, so the content
+/// cannot close it.
+function getCodeFence(content: string): string {
+	const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+	return "`".repeat(Math.max(3, longestRun + 1));
+}
+
+function escapeMarkdownTableCell(input: string): string {
+	return input.replace(/\|/g, "\\|");
+}
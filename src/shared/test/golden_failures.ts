@@ -0,0 +1,64 @@
+import * as path from "path";
+
+const goldenFailurePattern = /Golden "([^"]+)": (.*)/;
+const failureFeedbackPattern = /Failure feedback can be found at (.+)/;
+
+export interface GoldenFailure {
+	/// The golden file URI as passed to matchesGoldenFile.
+	golden: string;
+	message: string;
+	failuresFolder: string;
+	images: GoldenFailureImages;
+}
+
+/// Paths to the images flutter_test writes to the failures folder. Not all images
+/// exist for all failures (for example, there are no diffs if the sizes differ).
+export interface GoldenFailureImages {
+	masterImage: string;
+	testImage: string;
+	isolatedDiff: string;
+	maskedDiff: string;
+}
+
+/// Finds golden file failures reported by flutter_test's LocalFileComparator in test output, such as:
+///
+///     Golden "goldens/foo.png": Pixel test failed, 1.23%, 456px diff detected.
+///     Failure feedback can be found at /path/to/test/failures
+export function parseGoldenFailures(outputs: string[]): GoldenFailure[] {
+	const failures: GoldenFailure[] = [];
+	for (const output of outputs) {
+		const lines = output.replace(/\r\n/g, "\n").split("\n");
+		for (let i = 0; i < lines.length; i++) {
+			const goldenMatch = goldenFailurePattern.exec(lines[i]);
+			if (!goldenMatch)
+				continue;
+			// The feedback location is usually on the next line, but may be on the same one.
+			const feedbackMatch = failureFeedbackPattern.exec(lines[i]) ?? (i + 1 < lines.length ? failureFeedbackPattern.exec(lines[i + 1]) : null);
+			if (!feedbackMatch)
+				continue;
+
+			const golden = goldenMatch[1];
+			const failuresFolder = feedbackMatch[1].trim();
+			failures.push({
+				failuresFolder,
+				golden,
+				images: getGoldenFailureImages(golden, failuresFolder),
+				message: goldenMatch[2].replace(failureFeedbackPattern, "").trim(),
+			});
+		}
+	}
+	return failures;
+}
+
+function getGoldenFailureImages(golden: string, failuresFolder: string): GoldenFailureImages {
+	// This matches LocalFileComparator.getFailureFile in flutter_test.
+	const fileName = golden.split("/").pop()!;
+	const baseName = fileName.substring(0, fileName.length - path.extname(fileName).length);
+	const image = (kind: string) => path.join(failuresFolder, `${baseName}_${kind}.png`);
+	return {
+		isolatedDiff: image("isolatedDiff"),
+		maskedDiff: image("maskedDiff"),
+		masterImage: image("masterImage"),
+		testImage: image("testImage"),
+	};
+}
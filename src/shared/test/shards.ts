@@ -0,0 +1,50 @@
+import { ErrorNotification, GroupNotification, PrintNotification, SuiteNotification, TestDoneNotification, TestStartNotification } from "../test_protocol";
+
+export interface ShardProgress {
+	passed: number;
+	failed: number;
+	isDone: boolean;
+}
+
+/// Rewrites the suite/group/test IDs in a notification from a shard so that they are unique
+/// across all shards in a session.
+///
+/// IDs are only unique within a single runner process, so they're interleaved such that shard 0
+/// uses 0, N, 2N..., shard 1 uses 1, N+1, 2N+1... and so on.
+export function makeShardIDsUnique(notification: { type: string }, shardIndex: number, totalShards: number): void {
+	const toUnique = (id: number) => id * totalShards + shardIndex;
+	switch (notification.type) {
+		case "suite":
+			const suite = (notification as SuiteNotification).suite;
+			suite.id = toUnique(suite.id);
+			break;
+		case "group":
+			const group = (notification as GroupNotification).group;
+			group.id = toUnique(group.id);
+			group.suiteID = toUnique(group.suiteID);
+			if (group.parentID !== undefined && group.parentID !== null)
+				group.parentID = toUnique(group.parentID);
+			break;
+		case "testStart":
+			const test = (notification as TestStartNotification).test;
+			test.id = toUnique(test.id);
+			test.suiteID = toUnique(test.suiteID);
+			test.groupIDs = test.groupIDs?.map(toUnique);
+			break;
+		case "testDone":
+		case "print":
+		case "error":
+			const testNotification = notification as TestDoneNotification | PrintNotification | ErrorNotification;
+			testNotification.testID = toUnique(testNotification.testID);
+			break;
+	}
+}
+
+export function formatShardProgress(shards: ShardProgress[]): string {
+	return shards
+		.map((shard, i) => {
+			const results = shard.failed ? `${shard.passed} passed, ${shard.failed} failed` : `${shard.passed} passed`;
+			return `Shard ${i + 1}/${shards.length}: ${results}${shard.isDone ? " (done)" : ""}`;
+		})
+		.join(" | ");
+}
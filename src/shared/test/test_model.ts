@@ -5,6 +5,7 @@ import { ErrorNotification, Group, PrintNotification, Test } from "../test_proto
 import { flatMap, notUndefined, uniq } from "../utils";
 import { sortBy } from "../utils/array";
 import { fsPath } from "../utils/fs";
+import { ExpectFailure, parseExpectFailure } from "./expect_failure";
 
 enum TestSortOrder {
 	Top, // Fails
@@ -151,10 +152,24 @@ export class GroupNode extends TestContainerNode {
 	}
 }
 
+/// The number of previous results to keep for each test.
+const maxTestHistoryLength = 10;
+
+export interface TestRunResult {
+	status: TestStatus;
+	duration: number | undefined;
+	// Whether this result came from automatically retrying a failed test.
+	isRetry: boolean;
+}
+
 export class TestNode extends TreeNode {
 	private _status = TestStatus.Unknown;
 
 	public readonly outputEvents: Array<PrintNotification | ErrorNotification> = [];
+	/// The first expect failure from this test's errors, parsed as the errors are recorded.
+	public expectFailure: ExpectFailure | undefined;
+	/// The most recent results for this test, oldest first.
+	public readonly history: TestRunResult[] = [];
 	public testStartTime: number | undefined;
 	public duration: number | undefined;
 	public hidden = false;
@@ -194,6 +209,29 @@ export class TestNode extends TreeNode {
 
 		this._sort = getTestSortOrder(new Set<TestStatus>([this.status]));
 	}
+
+	/// Records the current status and duration in the history.
+	public recordResult(isRetry: boolean) {
+		this.history.push({ status: this.status, duration: this.duration, isRetry });
+		if (this.history.length > maxTestHistoryLength)
+			this.history.splice(0, this.history.length - maxTestHistoryLength);
+	}
+
+	/// Whether this test has both passed and failed without changes to the test being
+	/// detected, either because it passed when retried after failing, or because its
+	/// recent results alternate between passing and failing.
+	get isFlaky(): boolean {
+		const results = this.history.filter((r) => r.status === TestStatus.Passed || r.status === TestStatus.Failed);
+		let transitions = 0;
+		for (let i = 1; i < results.length; i++) {
+			if (results[i].status === results[i - 1].status)
+				continue;
+			if (results[i].isRetry && results[i].status === TestStatus.Passed)
+				return true;
+			transitions++;
+		}
+		return transitions >= 2;
+	}
 }
 
 export class TestTreeModel {
@@ -252,6 +290,69 @@ export class TestTreeModel {
 		return [suite, false];
 	}
 
+	/// Converts the results for all suites into a form that can be persisted and
+	/// later passed to restore().
+	public serialize(): SerializedTestResults {
+		return {
+			suites: Object.values(this.suites).map((suite) => ({
+				groups: suite.node.groups.map((g) => serializeGroup(g)),
+				isFlutterSuite: suite.isFlutterSuite,
+				path: suite.path,
+				tests: serializeTests(suite.node.tests),
+			})),
+		};
+	}
+
+	/// Rebuilds suites from previously serialized results. All restored nodes are marked as
+	/// stale since they're not from a run in this session.
+	public restore(results: SerializedTestResults): void {
+		for (const serializedSuite of results.suites) {
+			// Never overwrite results from this session with old ones.
+			if (this.suites[serializedSuite.path])
+				continue;
+
+			const suite = new SuiteData(serializedSuite.path, serializedSuite.isFlutterSuite);
+			this.suites[serializedSuite.path] = suite;
+			let nextId = 1;
+			const restoreChildren = (parent: SuiteNode | GroupNode, groups: SerializedGroup[], tests: SerializedTest[]) => {
+				for (const serializedGroup of groups) {
+					const group = new GroupNode(suite, parent, nextId++, serializedGroup.name, serializedGroup.path, serializedGroup.line, serializedGroup.column);
+					// Use a run number that will never be current so that nodes are only reused
+					// (by name) and never looked up by their (fabricated) IDs.
+					group.suiteRunNumber = 0;
+					suite.storeGroup(group);
+					parent.groups.push(group);
+					restoreChildren(group, serializedGroup.groups, serializedGroup.tests);
+				}
+				for (const serializedTest of tests) {
+					const test = new TestNode(suite, parent, nextId++, serializedTest.name, serializedTest.path, serializedTest.line, serializedTest.column);
+					test.suiteRunNumber = 0;
+					test.status = serializedTest.status;
+					test.duration = serializedTest.duration;
+					if (test.duration !== undefined)
+						test.description = `${test.duration}ms`;
+					test.outputEvents.push(...serializedTest.outputEvents);
+					for (const event of serializedTest.outputEvents) {
+						if (!test.expectFailure && event.type === "error")
+							test.expectFailure = parseExpectFailure((event as ErrorNotification).error);
+					}
+					test.history.push(...serializedTest.history ?? []);
+					suite.storeTest(test);
+					parent.tests.push(test);
+				}
+			};
+			restoreChildren(suite.node, serializedSuite.groups, serializedSuite.tests);
+
+			this.rebuildNode(suite.node);
+			// Setting statuses clears the stale flag, so this must be done last.
+			suite.node.isStale = true;
+			suite.getAllGroups(true).forEach((g) => g.isStale = true);
+			suite.getAllTests(true).forEach((t) => t.isStale = true);
+		}
+
+		this.updateNode();
+	}
+
 	public clearAllResults(): void {
 		for (const suiteData of Object.keys(this.suites)) {
 			delete this.suites[suiteData];
@@ -313,6 +414,83 @@ export class TestTreeModel {
 	}
 }
 
+export interface SerializedTestResults {
+	suites: SerializedSuite[];
+}
+
+export interface SerializedSuite {
+	path: string;
+	isFlutterSuite: boolean;
+	groups: SerializedGroup[];
+	tests: SerializedTest[];
+}
+
+export interface SerializedGroup {
+	name: string | undefined;
+	path: string | undefined;
+	line: number | undefined;
+	column: number | undefined;
+	groups: SerializedGroup[];
+	tests: SerializedTest[];
+}
+
+export interface SerializedTest {
+	name: string | undefined;
+	path: string | undefined;
+	line: number | undefined;
+	column: number | undefined;
+	status: TestStatus;
+	duration: number | undefined;
+	outputEvents: Array<PrintNotification | ErrorNotification>;
+	// Not present in results persisted by older versions.
+	history?: TestRunResult[];
+}
+
+function serializeGroup(group: GroupNode): SerializedGroup {
+	return {
+		column: group.column,
+		groups: group.groups.map((g) => serializeGroup(g)),
+		line: group.line,
+		name: group.name,
+		path: group.path,
+		tests: serializeTests(group.tests),
+	};
+}
+
+/// The number of output events to persist for each test that did not pass. Output for passing and
+/// skipped tests is not persisted at all, since it's rarely useful and can be very large.
+const maxSerializedOutputEvents = 100;
+/// The maximum length of the text of each persisted output event.
+const maxSerializedOutputLength = 10000;
+
+function serializeOutputEvents(test: TestNode): Array<PrintNotification | ErrorNotification> {
+	if (test.status === TestStatus.Passed || test.status === TestStatus.Skipped)
+		return [];
+
+	// Keep the most recent events, since the failure is usually at the end.
+	const truncate = (text: string) => text.length > maxSerializedOutputLength
+		? `${text.substring(0, maxSerializedOutputLength)}…`
+		: text;
+	return test.outputEvents.slice(-maxSerializedOutputEvents).map((e) => "message" in e
+		? { ...e, message: truncate(e.message) }
+		: { ...e, error: truncate(e.error), stackTrace: truncate(e.stackTrace) });
+}
+
+function serializeTests(tests: TestNode[]): SerializedTest[] {
+	// Hidden tests (such as "loading" tests) are not useful once the run has finished.
+	return tests.filter((t) => !t.hidden).map((t) => ({
+		column: t.column,
+		duration: t.duration,
+		history: t.history,
+		line: t.line,
+		name: t.name,
+		outputEvents: serializeOutputEvents(t),
+		path: t.path,
+		// Tests that were running when serialized will never complete.
+		status: t.status === TestStatus.Running ? TestStatus.Unknown : t.status,
+	}));
+}
+
 export class SuiteData {
 	public get currentRunNumber() { return this.node.suiteRunNumber; }
 	public readonly node: SuiteNode;
@@ -372,6 +550,17 @@ export class SuiteData {
 		}
 		return match;
 	}
+	public reuseShardGroup(currentSuiteRunNumber: number, group: Group, parent: SuiteNode | GroupNode): GroupNode | undefined {
+		// When tests are sharded, every shard reports the same groups (with different IDs), so a group with the
+		// same name and parent that was already used for the current run is the same group from another shard.
+		const match = this.getAllGroups(true).find((g) => g.name === group.name
+			&& g.parent === parent
+			&& g.suiteRunNumber === currentSuiteRunNumber);
+		// Keep the node's original ID but allow it to also be looked up by this shard's ID.
+		if (match)
+			this.groups[`${currentSuiteRunNumber}_${group.id}`] = match;
+		return match;
+	}
 	public reuseMatchingTest(currentSuiteRunNumber: number, test: Test): TestNode | undefined {
 		// To reuse a node, the name must match and it must have not been used for the current run.
 		const matches = this.getAllTests().filter((t) => t.name === test.name
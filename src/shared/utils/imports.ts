@@ -0,0 +1,97 @@
+import * as path from "path";
+import { isLinux } from "../constants";
+import { uriToFilePath } from "../utils";
+
+// Matches import, export and part directives (but not "part of"), which may span multiple lines.
+const directivePattern = /^\s*(?:import|export|part(?!\s+of\b))\b([^;]*);/gm;
+// Matches the conditions of configurable imports, such as `if (dart.library.io)`.
+const conditionPattern = /\bif\s*\([^)]*\)/g;
+const stringPattern = /r?'([^']+)'|r?"([^"]+)"/g;
+
+/// Returns the URIs referenced by import, export and part directives in the given Dart source,
+/// including all of the URIs of configurable (conditional) imports and exports.
+export function getDirectiveUris(contents: string): string[] {
+	const uris: string[] = [];
+	let match: RegExpExecArray | null;
+	directivePattern.lastIndex = 0;
+	while ((match = directivePattern.exec(contents))) {
+		// Conditions may compare to strings, which are not URIs.
+		const directive = match[1].replace(conditionPattern, "");
+		let stringMatch: RegExpExecArray | null;
+		stringPattern.lastIndex = 0;
+		while ((stringMatch = stringPattern.exec(directive)))
+			uris.push(stringMatch[1] || stringMatch[2]);
+	}
+	return uris;
+}
+
+/// Resolves a directive URI from the given file to a file path. SDK URIs (and package URIs that
+/// cannot be resolved) return undefined.
+export function resolveDirectiveUri(uri: string, fromFile: string, resolvePackageUri: (uri: string) => string | undefined): string | undefined {
+	if (uri.startsWith("dart:"))
+		return undefined;
+	else if (uri.startsWith("package:"))
+		return resolvePackageUri(uri);
+	else if (uri.startsWith("file:"))
+		return uriToFilePath(uri);
+	else
+		return path.resolve(path.dirname(fromFile), decodeURIComponent(uri));
+}
+
+/// Resolves a package URI using the package maps returned by the analysis server, which map
+/// context roots to package names to source folders. The map for the innermost context root
+/// containing fromFile is used.
+export function resolvePackageUriFromContextMaps(
+	uri: string,
+	fromFile: string,
+	contextPackageMaps: { [contextRoot: string]: { [packageName: string]: string[] | undefined } | undefined },
+): string | undefined {
+	const match = /^package:([^/]+)\/(.+)$/.exec(uri);
+	if (!match)
+		return undefined;
+
+	const fromKey = normalizeForComparison(fromFile);
+	const contextRoot = Object.keys(contextPackageMaps)
+		.filter((root) => fromKey.startsWith(normalizeForComparison(root) + path.sep))
+		.sort((a, b) => b.length - a.length)[0];
+	const folder = contextRoot ? contextPackageMaps[contextRoot]?.[match[1]]?.[0] : undefined;
+	return folder ? path.join(folder, decodeURIComponent(match[2])) : undefined;
+}
+
+/// Finds all files that depend (directly or transitively) on any of the changed files, including
+/// the changed files themselves if they are in files.
+export function findDependentFiles(changedFiles: string[], files: string[], getDependencies: (file: string) => string[]): string[] {
+	// Build a reverse graph so we can walk from the changed files to the files that import them.
+	const dependents = new Map<string, string[]>();
+	for (const file of files) {
+		for (const dependency of getDependencies(file)) {
+			const key = normalizeForComparison(dependency);
+			let list = dependents.get(key);
+			if (!list)
+				dependents.set(key, list = []);
+			list.push(file);
+		}
+	}
+
+	const knownFiles = new Set(files.map(normalizeForComparison));
+	const seen = new Set<string>();
+	const results: string[] = [];
+	const queue = changedFiles.slice();
+	while (queue.length) {
+		const file = queue.shift()!;
+		const key = normalizeForComparison(file);
+		if (seen.has(key))
+			continue;
+		seen.add(key);
+		if (knownFiles.has(key))
+			results.push(file);
+		queue.push(...(dependents.get(key) || []));
+	}
+	return results;
+}
+
+function normalizeForComparison(file: string): string {
+	const normalized = path.normalize(file);
+	// File systems on Windows and macOS are usually case-insensitive.
+	return isLinux ? normalized : normalized.toLowerCase();
+}
@@ -31,6 +31,22 @@ export function getLaunchConfig(noDebug: boolean, path: string, testNames: strin
 	);
 }
 
+const testNameFilterArgs = ["--name", "-n", "--plain-name", "-N"];
+
+/// Removes any test name filters (`--name` and `--plain-name` in any form) from toolArgs, so that
+/// they can be replaced without being combined with the original filters.
+export function removeTestNameFilters(toolArgs: string[]): string[] {
+	const result: string[] = [];
+	for (let i = 0; i < toolArgs.length; i++) {
+		const arg = toolArgs[i];
+		if (testNameFilterArgs.includes(arg))
+			i++; // Also skip the value.
+		else if (!testNameFilterArgs.some((filterArg) => filterArg.startsWith("--") && arg.startsWith(`${filterArg}=`)))
+			result.push(arg);
+	}
+	return result;
+}
+
 const regexEscapedInterpolationExpressionPattern = /\\\$(?:(?:\w+)|(?:\\\{.*\\\}))/g;
 export function makeRegexForTests(names: string[], isGroup: boolean) {
 	const regexSegments: string[] = [];
@@ -113,3 +129,36 @@ export function extractTestNameFromOutline(elementName: string): string | undefi
 export function isSimpleTestName(name: string): boolean {
 	return !!name && !name.includes("$");
 }
+
+/// Maps a test file to its implementation file by replacing the last "test" folder
+/// with "lib" and removing the "_test" suffix.
+export function getImplementationFileForTest(filePath: string): string {
+	const pathSegments = filePath.split(path.sep);
+
+	// Replace test folder with lib.
+	const testFolderIndex = pathSegments.lastIndexOf("test");
+	if (testFolderIndex !== -1)
+		pathSegments[testFolderIndex] = "lib";
+
+	// Remove _test from the filename.
+	pathSegments[pathSegments.length - 1] = pathSegments[pathSegments.length - 1].replace(/_test\.dart/, ".dart");
+
+	return pathSegments.join(path.sep);
+}
+
+/// Maps an implementation file to its test file by replacing the last "lib" folder
+/// with "test" and adding a "_test" suffix. Returns undefined for files outside of lib.
+export function getTestFileForImplementation(filePath: string): string | undefined {
+	const pathSegments = filePath.split(path.sep);
+
+	// Replace lib folder with test.
+	const libFolderIndex = pathSegments.lastIndexOf("lib");
+	if (libFolderIndex === -1)
+		return undefined;
+	pathSegments[libFolderIndex] = "test";
+
+	// Add _test to the filename.
+	pathSegments[pathSegments.length - 1] = pathSegments[pathSegments.length - 1].replace(/\.dart/, "_test.dart");
+
+	return pathSegments.join(path.sep);
+}
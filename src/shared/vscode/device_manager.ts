@@ -4,22 +4,29 @@ import { getAllProjectFolders } from "../../shared/vscode/utils";
 import { cancelAction, runFlutterCreatePrompt, yesAction } from "../constants";
 import { LogCategory } from "../enums";
 import * as f from "../flutter/daemon_interfaces";
-import { CustomEmulator, CustomEmulatorDefinition, Emulator, EmulatorCreator, FlutterCreateCommandArgs, IFlutterDaemon, Logger, PlatformEnabler } from "../interfaces";
+import { CustomEmulator, CustomEmulatorDefinition, DevicePreset, DevicePresetSelector, Emulator, EmulatorCreator, FlutterCreateCommandArgs, IFlutterDaemon, Logger, PersistedDeviceSelection, PlatformEnabler } from "../interfaces";
 import { logProcess } from "../logging";
 import { safeSpawn } from "../processes";
 import { unique } from "../utils/array";
 import { resolveTildePaths } from "../utils/fs";
 import { isRunningLocally } from "./utils";
+import { Context } from "./workspace";
 
 export class FlutterDeviceManager implements vs.Disposable {
 	private subscriptions: vs.Disposable[] = [];
 	private statusBarItem: vs.StatusBarItem;
 	public currentDevice?: f.Device;
+	private selectedPreset?: DevicePreset;
+	private persistedSelection?: PersistedDeviceSelection;
 	private devices: f.Device[] = [];
 	private emulators: Emulator[] = [];
 	private readonly knownEmulatorNames: { [key: string]: string } = {};
 
-	constructor(private readonly logger: Logger, private daemon: IFlutterDaemon, private readonly config: { flutterCustomEmulators: CustomEmulatorDefinition[], flutterSelectDeviceWhenConnected: boolean, flutterShowEmulators: "local" | "always" }) {
+	constructor(private readonly logger: Logger, private daemon: IFlutterDaemon, private readonly config: { flutterCustomEmulators: CustomEmulatorDefinition[], flutterDevicePresets: DevicePreset[], flutterSelectDeviceWhenConnected: boolean, flutterShowEmulators: "local" | "always" }, private readonly extContext?: Pick<Context, "lastSelectedFlutterDevice">) {
+		// Restore the last selection for this workspace. The device itself will be selected when it connects.
+		this.persistedSelection = extContext?.lastSelectedFlutterDevice;
+		this.selectedPreset = this.config.flutterDevicePresets.find((p) => p.name === this.persistedSelection?.presetName);
+
 		this.statusBarItem = vs.window.createStatusBarItem("dartStatusFlutterDevice", vs.StatusBarAlignment.Right, 1);
 		this.statusBarItem.name = "Flutter Device";
 		this.statusBarItem.tooltip = "Flutter";
@@ -42,6 +49,12 @@ export class FlutterDeviceManager implements vs.Disposable {
 		disposeAll(this.subscriptions);
 	}
 
+	/// The selected device preset, if its device is the current device. While waiting for the preset's device
+	/// to connect, another device may be selected and the preset should not be applied to it.
+	public get activePreset(): DevicePreset | undefined {
+		return this.selectedPreset && this.matchesPersistedSelection(this.currentDevice) ? this.selectedPreset : undefined;
+	}
+
 	public isSupported(types: f.PlatformType[] | undefined, device: { platformType?: f.PlatformType | null | undefined } | undefined) {
 		// If we don't get any types to filter, assume everything is valid.
 		return device && (!types || !types.length || !device.platformType || types.indexOf(device.platformType) !== -1);
@@ -53,7 +66,10 @@ export class FlutterDeviceManager implements vs.Disposable {
 		// undefined is treated as true for backwards compatibility.
 		const canAutoSelectDevice = dev.ephemeral !== false;
 		const maySelectThisDevice = () => !this.currentDevice
-			|| (this.config.flutterSelectDeviceWhenConnected && canAutoSelectDevice)
+			// Always switch back to the last device the user selected, and don't automatically
+			// switch away from it.
+			|| (this.matchesPersistedSelection(dev) && !this.matchesPersistedSelection(this.currentDevice))
+			|| (this.config.flutterSelectDeviceWhenConnected && canAutoSelectDevice && !this.matchesPersistedSelection(this.currentDevice))
 			// HACK: If the Chrome device becomes available and the selected device is
 			// web-server, allow switching because most users would prefer the Chrome device.
 			// We can revert this in future if Flutter changes the order these devices show up
@@ -106,7 +122,7 @@ export class FlutterDeviceManager implements vs.Disposable {
 			if (!quickPickIsValid)
 				return;
 
-			quickPick.items = this.getPickableDevices(supportedTypes, emulatorDevices);
+			quickPick.items = [...this.getPickablePresets(), ...this.getPickableDevices(supportedTypes, emulatorDevices)];
 		};
 
 		// Kick off a request to get emulators only once.
@@ -139,8 +155,36 @@ export class FlutterDeviceManager implements vs.Disposable {
 		return undefined;
 	}
 
+	/// Shows a picker allowing several connected devices to be selected (for example to run an app
+	/// on them simultaneously). Emulators are not included since they must be launched first.
+	public async showMultipleDevicePicker(supportedTypes?: f.PlatformType[]): Promise<f.Device[] | undefined> {
+		if (!supportedTypes && this.daemon.capabilities.providesPlatformTypes)
+			supportedTypes = await this.getSupportedPlatformsForWorkspace();
+
+		const items = this.getPickableDevices(supportedTypes)
+			.filter((item) => item.device.type === "device")
+			.map((item) => ({ ...item, picked: item.device === this.currentDevice }));
+		if (!items.length) {
+			vs.window.showWarningMessage("There are no connected devices to run on. Connect a device or start an emulator first.");
+			return undefined;
+		}
+
+		const selection = await vs.window.showQuickPick(items, { canPickMany: true, placeHolder: "Select devices to use" });
+		return selection?.length ? selection.map((item) => item.device as f.Device) : undefined;
+	}
+
 	public async selectDevice(selection: PickableDevice) {
 		const emulatorTypeLabel = this.emulatorLabel(selection.device.platformType);
+		if (selection.device.type === "device-preset")
+			return this.selectPreset(selection.device.preset);
+
+		if (selection.device.type !== "emulator-creator" && selection.device.type !== "platform-enabler") {
+			this.selectedPreset = undefined;
+			this.persistSelection(selection.device.type === "device"
+				? { deviceId: selection.device.id, emulatorId: selection.device.emulatorId ?? undefined }
+				: { emulatorId: selection.device.id });
+		}
+
 		switch (selection.device.type) {
 			case "emulator-creator":
 				// Clear the current device so we can wait for the new one
@@ -188,6 +232,67 @@ export class FlutterDeviceManager implements vs.Disposable {
 		return true;
 	}
 
+	private async selectPreset(preset: DevicePreset): Promise<boolean> {
+		this.selectedPreset = preset;
+		this.persistSelection({ deviceId: preset.deviceId, emulatorId: preset.emulatorId, presetName: preset.name });
+
+		const device = this.devices.find((d) => this.matchesPersistedSelection(d));
+		if (device) {
+			this.currentDevice = device;
+		} else if (preset.emulatorId) {
+			const emulator = (await this.getEmulators()).find((e) => e.id === preset.emulatorId);
+			if (!emulator) {
+				vs.window.showErrorMessage(`Unable to find emulator ${preset.emulatorId} for preset ${preset.name}`);
+				this.updateStatusBar();
+				return false;
+			}
+			// Clear the current device so we can wait for the new one
+			// to connect.
+			this.currentDevice = undefined;
+			this.statusBarItem.text = `Launching ${this.emulatorLabel(emulator.platformType)}...`;
+			if (emulator.type === "custom-emulator")
+				await this.launchCustomEmulator(emulator);
+			else
+				await this.launchEmulator(emulator, preset.coldBoot ?? false);
+		} else {
+			vs.window.showInformationMessage(`${preset.deviceId ?? "The device"} for preset ${preset.name} is not connected. It will be selected when it connects.`);
+		}
+
+		this.updateStatusBar();
+		return true;
+	}
+
+	private persistSelection(selection: PersistedDeviceSelection) {
+		this.persistedSelection = selection;
+		if (this.extContext)
+			this.extContext.lastSelectedFlutterDevice = selection;
+	}
+
+	private matchesPersistedSelection(device: f.Device | undefined): boolean {
+		const selection = this.persistedSelection;
+		return !!device && !!selection
+			&& (device.id === selection.deviceId || (!!device.emulatorId && device.emulatorId === selection.emulatorId));
+	}
+
+	private getPickablePresets(): PickableDevice[] {
+		return this.config.flutterDevicePresets.map((preset) => {
+			const emulatorName = preset.emulatorId && this.knownEmulatorNames[preset.emulatorId];
+			const target = preset.deviceId ?? (emulatorName || preset.emulatorId);
+			return {
+				description: [
+					target,
+					preset.coldBoot ? "cold boot" : undefined,
+					preset.flavor ? `flavor: ${preset.flavor}` : undefined,
+				].filter(notNullOrUndefined).join(" · "),
+				detail: preset.dartDefines && Object.keys(preset.dartDefines).length
+					? Object.keys(preset.dartDefines).map((key) => `${key}=${preset.dartDefines![key]}`).join(" ")
+					: undefined,
+				device: { type: "device-preset", preset } as DevicePresetSelector,
+				label: `$(bookmark) ${preset.name}`,
+			};
+		});
+	}
+
 	private shortCacheForSupportedPlatforms: Promise<f.PlatformType[]> | undefined;
 
 	public getDevice(id: string | undefined) {
@@ -286,6 +391,8 @@ export class FlutterDeviceManager implements vs.Disposable {
 		} else {
 			this.statusBarItem.text = "No Device";
 		}
+		if (this.activePreset)
+			this.statusBarItem.text = `${this.activePreset.name}: ${this.statusBarItem.text}`;
 
 		if (this.devices.length > 1) {
 			this.statusBarItem.tooltip = `${this.devices.length} Devices Connected`;
@@ -505,4 +612,4 @@ export class FlutterDeviceManager implements vs.Disposable {
 	}
 }
 
-type PickableDevice = vs.QuickPickItem & { device: f.Device | PlatformEnabler | Emulator | EmulatorCreator, coldBoot?: boolean };
+type PickableDevice = vs.QuickPickItem & { device: f.Device | PlatformEnabler | Emulator | EmulatorCreator | DevicePresetSelector, coldBoot?: boolean };
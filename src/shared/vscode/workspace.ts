@@ -1,4 +1,6 @@
 import { ExtensionContext } from "vscode";
+import { PersistedDeviceSelection } from "../interfaces";
+import { SerializedTestResults } from "../test/test_model";
 
 export class Context {
 	private context: ExtensionContext;
@@ -33,6 +35,11 @@ export class Context {
 	public getPackageLastCheckedForUpdates(packageID: string): number | undefined { return this.context.globalState.get(`packageLastCheckedForUpdates:${packageID}`) as number; }
 	public setPackageLastCheckedForUpdates(packageID: string, value: number | undefined) { this.context.globalState.update(`packageLastCheckedForUpdates:${packageID}`, value); }
 
+	get testResults(): SerializedTestResults | undefined { return this.context.workspaceState.get("testResults"); }
+	set testResults(value: SerializedTestResults | undefined) { this.context.workspaceState.update("testResults", value); }
+	get lastSelectedFlutterDevice(): PersistedDeviceSelection | undefined { return this.context.workspaceState.get("lastSelectedFlutterDevice"); }
+	set lastSelectedFlutterDevice(value: PersistedDeviceSelection | undefined) { this.context.workspaceState.update("lastSelectedFlutterDevice", value); }
+
 	public update(key: string, value: any): any {
 		return this.context.globalState.update(key, value);
 	}
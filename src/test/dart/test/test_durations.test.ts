@@ -0,0 +1,60 @@
+import * as assert from "assert";
+import { TestStatus } from "../../../shared/enums";
+import { getDurationRegression, getSuiteDurationTrend, median, sparkline } from "../../../shared/test/durations";
+import { SuiteData, TestNode, TestTreeModel } from "../../../shared/test/test_model";
+
+describe("test durations", () => {
+	let suite: SuiteData;
+
+	beforeEach(() => {
+		const model = new TestTreeModel({ showSkippedTests: true }, () => false);
+		[suite] = model.getOrCreateSuite("/project/test/foo_test.dart");
+	});
+
+	function addTest(id: number, durations: number[]): TestNode {
+		const test = new TestNode(suite, suite.node, id, `test ${id}`, suite.path, id, 1);
+		for (const duration of durations) {
+			test.status = TestStatus.Passed;
+			test.duration = duration;
+			test.recordResult(false);
+		}
+		suite.storeTest(test);
+		suite.node.tests.push(test);
+		return test;
+	}
+
+	it("calculates medians", () => {
+		assert.equal(median([]), undefined);
+		assert.equal(median([3, 1, 2]), 2);
+		assert.equal(median([4, 1, 2, 3]), 2.5);
+	});
+
+	it("detects regressions beyond the threshold", () => {
+		const test = addTest(1, [100, 110, 90, 200]);
+		const regression = getDurationRegression(test, 50);
+		assert.ok(regression);
+		assert.equal(regression.duration, 200);
+		assert.equal(regression.median, 100);
+		assert.equal(regression.increasePercent, 100);
+		assert.equal(getDurationRegression(test, 100), undefined);
+	});
+
+	it("requires enough history to detect regressions", () => {
+		assert.equal(getDurationRegression(addTest(1, [100, 100, 500]), 50), undefined);
+	});
+
+	it("does not flag regressions in very fast tests", () => {
+		assert.equal(getDurationRegression(addTest(1, [2, 3, 2, 10]), 50), undefined);
+	});
+
+	it("builds suite duration trends aligned to the latest run", () => {
+		addTest(1, [10, 20, 30]);
+		addTest(2, [5, 5]);
+		assert.deepStrictEqual(getSuiteDurationTrend(suite), [10, 25, 35]);
+	});
+
+	it("renders sparklines", () => {
+		assert.equal(sparkline([1, 8, 4.5]), "▁█▅");
+		assert.equal(sparkline([3, 3]), "▁▁");
+	});
+});
@@ -0,0 +1,85 @@
+import * as assert from "assert";
+import { TestStatus } from "../../../shared/enums";
+import { formatValueForDiff, parseExpectFailure } from "../../../shared/test/expect_failure";
+import { TestNode, TestTreeModel } from "../../../shared/test/test_model";
+
+describe("expect failures", () => {
+	it("parses expected, actual and which", () => {
+		const error = [
+			"Expected: 'foo'",
+			"  Actual: 'bar'",
+			"   Which: is different.",
+			"          Expected: foo",
+			"            Actual: bar",
+			"                    ^",
+			"           Differ at offset 0",
+			"",
+		].join("\n");
+		const failure = parseExpectFailure(error);
+		assert.deepStrictEqual(failure, {
+			actual: "'bar'",
+			expected: "'foo'",
+			which: [
+				"is different.",
+				"Expected: foo",
+				"  Actual: bar",
+				"          ^",
+				" Differ at offset 0",
+			].join("\n"),
+		});
+	});
+
+	it("parses multi-line values", () => {
+		const error = [
+			"Expected: [",
+			"            1,",
+			"            2",
+			"          ]",
+			"  Actual: [1]",
+			"",
+		].join("\n");
+		const failure = parseExpectFailure(error);
+		assert.equal(failure?.expected, "[\n  1,\n  2\n]");
+		assert.equal(failure?.actual, "[1]");
+		assert.equal(failure?.which, undefined);
+	});
+
+	it("returns undefined for errors that are not expect failures", () => {
+		assert.equal(parseExpectFailure("Exception: Something went wrong"), undefined);
+		assert.equal(parseExpectFailure("Expected: but no actual"), undefined);
+	});
+
+	it("converts multi-line strings to raw text", () => {
+		assert.equal(formatValueForDiff("'line one\\n'\n  'line \\'two\\''"), "line one\nline 'two'");
+	});
+
+	it("unwraps simple values", () => {
+		assert.equal(formatValueForDiff("<3>"), "3");
+	});
+
+	it("pretty-prints single-line collections", () => {
+		assert.equal(
+			formatValueForDiff("{'a': [1, 2], 'b, c': {}}"),
+			"{\n  'a': [\n    1,\n    2\n  ],\n  'b, c': {}\n}",
+		);
+	});
+
+	it("leaves already multi-line collections alone", () => {
+		assert.equal(formatValueForDiff("[\n  1,\n  2\n]"), "[\n  1,\n  2\n]");
+	});
+
+	it("parses the expect failure of restored results", () => {
+		const model = new TestTreeModel({ showSkippedTests: true }, () => false);
+		const [suite] = model.getOrCreateSuite("/project/test/foo_test.dart");
+		const test = new TestNode(suite, suite.node, 1, "my test", suite.path, 1, 1);
+		test.status = TestStatus.Failed;
+		test.outputEvents.push({ error: "Expected: 'foo'\n  Actual: 'bar'\n", isFailure: true, stackTrace: "", testID: 1, time: 0, type: "error" });
+		suite.storeTest(test);
+		suite.node.tests.push(test);
+
+		const restoredModel = new TestTreeModel({ showSkippedTests: true }, () => false);
+		restoredModel.restore(model.serialize());
+		const restoredTest = restoredModel.suites["/project/test/foo_test.dart"].getAllTests()[0];
+		assert.deepStrictEqual(restoredTest.expectFailure, { actual: "'bar'", expected: "'foo'", which: undefined });
+	});
+});
@@ -0,0 +1,113 @@
+import * as assert from "assert";
+import { TestStatus } from "../../../shared/enums";
+import { toJUnitXml, toMarkdownSummary } from "../../../shared/test/export";
+import { SuiteData, TestNode, TestTreeModel } from "../../../shared/test/test_model";
+
+describe("test results export", () => {
+	let suite: SuiteData;
+
+	beforeEach(() => {
+		const model = new TestTreeModel({ showSkippedTests: true }, () => false);
+		[suite] = model.getOrCreateSuite("/project/test/foo_test.dart");
+		addTest(1, "passes", TestStatus.Passed, 10);
+		addTest(2, "fails <with> \"markup\"", TestStatus.Failed, 20).outputEvents.push(
+			{ type: "print", time: 0, testID: 2, messageType: "print", message: "some output" },
+			{ type: "error", time: 0, testID: 2, error: "Expected: <1>\n  Actual: <2>", stackTrace: "test/foo_test.dart 5:5", isFailure: true },
+		);
+		addTest(3, "is skipped", TestStatus.Skipped, 0);
+		addTest(4, "never ran", TestStatus.Unknown, undefined);
+	});
+
+	function addTest(id: number, name: string, status: TestStatus, duration: number | undefined): TestNode {
+		const test = new TestNode(suite, suite.node, id, name, suite.path, id, 1);
+		test.status = status;
+		test.duration = duration;
+		suite.storeTest(test);
+		suite.node.tests.push(test);
+		return test;
+	}
+
+	const getSuiteName = (suitePath: string) => suitePath.replace("/project/", "");
+
+	it("writes JUnit XML", () => {
+		const xml = toJUnitXml([suite], getSuiteName);
+		assert.equal(xml, `
+<?xml version="1.0" encoding="UTF-8"?>
+<testsuites tests="3" failures="1" skipped="1" time="0.030">
+  <testsuite name="test/foo_test.dart" tests="3" failures="1" skipped="1" time="0.030">
+    <testcase classname="test.foo_test" name="passes" time="0.010">
+    </testcase>
+    <testcase classname="test.foo_test" name="fails &lt;with&gt; &quot;markup&quot;" time="0.020">
+      <failure message="Expected: &lt;1&gt;">Expected: &lt;1&gt;
+  Actual: &lt;2&gt;
+test/foo_test.dart 5:5</failure>
+      <system-out>some output</system-out>
+    </testcase>
+    <testcase classname="test.foo_test" name="is skipped" time="0.000">
+      <skipped/>
+    </testcase>
+  </testsuite>
+</testsuites>
+		`.trim() + "\n");
+	});
+
+	it("writes a Markdown summary", () => {
+		const md = toMarkdownSummary([suite], getSuiteName);
+		assert.equal(md, `
+## Test Results
+
+1 passed, 1 failed, 1 skipped in 0.030s
+
+| Suite | Passed | Failed | Skipped | Time |
+| --- | ---: | ---: | ---: | ---: |
+| test/foo_test.dart | 1 | 1 | 1 | 0.030s |
+
+### Failures
+
+<details><summary>test/foo_test.dart: fails &lt;with&gt; &quot;markup&quot;</summary>
+
+\`\`\`
+Expected: <1>
+  Actual: <2>
+\`\`\`
+
+</details>
+		`.trim() + "\n");
+	});
+
+	it("writes one JUnit failure for each failed test", () => {
+		addTest(5, "fails twice", TestStatus.Failed, undefined).outputEvents.push(
+			{ type: "error", time: 0, testID: 5, error: "First", stackTrace: "a.dart 1:1", isFailure: true },
+			{ type: "error", time: 0, testID: 5, error: "Second", stackTrace: "b.dart 2:2", isFailure: false },
+		);
+		addTest(6, "fails without errors", TestStatus.Failed, undefined);
+		const xml = toJUnitXml([suite], getSuiteName);
+		assert.ok(xml.includes(`<testcase classname="test.foo_test" name="fails twice" time="0.000">
+      <error message="First">First
+a.dart 1:1
+
+Second
+b.dart 2:2</error>
+    </testcase>`), xml);
+		assert.ok(xml.includes(`<testcase classname="test.foo_test" name="fails without errors" time="0.000">
+      <failure message="Test failed"/>
+    </testcase>`), xml);
+	});
+
+	it("uses a longer code fence when errors contain backticks", () => {
+		addTest(5, "fails with markdown", TestStatus.Failed, undefined).outputEvents.push(
+			{ type: "error", time: 0, testID: 5, error: "Expected:\n```\nfoo\n````", stackTrace: "", isFailure: true },
+		);
+		const md = toMarkdownSummary([suite], getSuiteName);
+		assert.ok(md.includes("`````\nExpected:\n```\nfoo\n````\n`````\n"), md);
+	});
+
+	it("leaves out stale results", () => {
+		addTest(5, "passed previously", TestStatus.Passed, undefined).isStale = true;
+		addTest(6, "failed previously", TestStatus.Failed, undefined).isStale = true;
+		const md = toMarkdownSummary([suite], getSuiteName);
+		assert.ok(md.includes("1 passed, 1 failed, 1 skipped in 0.030s\n\n_2 results from previous runs are not included._\n"), md);
+		assert.ok(!md.includes("failed previously"), md);
+		assert.ok(toJUnitXml([suite], getSuiteName).includes(`<testsuites tests="3" failures="1" skipped="1"`));
+	});
+});
@@ -0,0 +1,39 @@
+import * as assert from "assert";
+import * as path from "path";
+import { parseGoldenFailures } from "../../../shared/test/golden_failures";
+
+describe("golden failures", () => {
+	const failuresFolder = path.join("/", "project", "test", "failures");
+
+	it("parses golden failures from test output", () => {
+		const error = [
+			`Golden "goldens/home_page.png": Pixel test failed, 1.23%, 456px diff detected.`,
+			`Failure feedback can be found at ${failuresFolder}`,
+		].join("\n");
+
+		assert.deepStrictEqual(parseGoldenFailures(["unrelated output", error]), [
+			{
+				failuresFolder,
+				golden: "goldens/home_page.png",
+				images: {
+					isolatedDiff: path.join(failuresFolder, "home_page_isolatedDiff.png"),
+					maskedDiff: path.join(failuresFolder, "home_page_maskedDiff.png"),
+					masterImage: path.join(failuresFolder, "home_page_masterImage.png"),
+					testImage: path.join(failuresFolder, "home_page_testImage.png"),
+				},
+				message: "Pixel test failed, 1.23%, 456px diff detected.",
+			},
+		]);
+	});
+
+	it("parses failures where the feedback is on the same line", () => {
+		const failures = parseGoldenFailures([`Golden "button.png": Pixel test failed, image sizes do not match. Failure feedback can be found at ${failuresFolder}`]);
+		assert.equal(failures.length, 1);
+		assert.equal(failures[0].message, "Pixel test failed, image sizes do not match.");
+		assert.equal(failures[0].images.testImage, path.join(failuresFolder, "button_testImage.png"));
+	});
+
+	it("ignores golden failures without feedback", () => {
+		assert.deepStrictEqual(parseGoldenFailures([`Golden "button.png": Pixel test failed, image sizes do not match.`]), []);
+	});
+});
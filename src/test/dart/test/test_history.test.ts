@@ -0,0 +1,62 @@
+import * as assert from "assert";
+import { TestStatus } from "../../../shared/enums";
+import { nullLogger } from "../../../shared/logging";
+import { TestSessionCoordinator } from "../../../shared/test/coordinator";
+import { TestNode, TestTreeModel } from "../../../shared/test/test_model";
+
+describe("test history", () => {
+	let test: TestNode;
+
+	beforeEach(() => {
+		const model = new TestTreeModel({ showSkippedTests: true }, () => false);
+		const [suite] = model.getOrCreateSuite("/project/test/foo_test.dart");
+		test = new TestNode(suite, suite.node, 1, "my test", suite.path, 1, 1);
+	});
+
+	function record(status: TestStatus, isRetry = false) {
+		test.status = status;
+		test.recordResult(isRetry);
+	}
+
+	it("is not flaky when consistently passing or failing", () => {
+		record(TestStatus.Passed);
+		record(TestStatus.Passed);
+		assert.equal(test.isFlaky, false);
+		record(TestStatus.Failed);
+		record(TestStatus.Failed);
+		assert.equal(test.isFlaky, false);
+	});
+
+	it("is flaky when passing on a retry after failing", () => {
+		record(TestStatus.Failed);
+		record(TestStatus.Passed, true);
+		assert.equal(test.isFlaky, true);
+	});
+
+	it("is flaky when alternating between passing and failing", () => {
+		record(TestStatus.Passed);
+		record(TestStatus.Failed);
+		assert.equal(test.isFlaky, false);
+		record(TestStatus.Passed);
+		assert.equal(test.isFlaky, true);
+	});
+
+	it("keeps only the most recent results", () => {
+		for (let i = 0; i < 20; i++)
+			record(i % 2 ? TestStatus.Passed : TestStatus.Failed);
+		assert.equal(test.history.length, 10);
+		assert.equal(test.history[test.history.length - 1].status, TestStatus.Passed);
+	});
+});
+
+describe("terminated test sessions", () => {
+	it("are tracked until the session ends", () => {
+		const coordinator = new TestSessionCoordinator(nullLogger, new TestTreeModel({ showSkippedTests: true }, () => false));
+		coordinator.handleDebugSessionCustomEvent({ event: "dart.terminationRequested", session: { id: "terminated" } });
+
+		assert.equal(coordinator.wasTerminated("terminated"), true);
+		assert.equal(coordinator.wasTerminated("completed"), false);
+		coordinator.handleDebugSessionEnd("terminated");
+		assert.equal(coordinator.wasTerminated("terminated"), false);
+	});
+});
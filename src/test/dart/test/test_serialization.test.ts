@@ -0,0 +1,43 @@
+import * as assert from "assert";
+import { TestStatus } from "../../../shared/enums";
+import { TestNode, TestTreeModel } from "../../../shared/test/test_model";
+import { PrintNotification } from "../../../shared/test_protocol";
+
+describe("test result serialization", () => {
+	function print(message: string): PrintNotification {
+		return { message, messageType: "print", testID: 1, time: 0, type: "print" };
+	}
+
+	function serializeTest(status: TestStatus, messages: string[]) {
+		const model = new TestTreeModel({ showSkippedTests: true }, () => false);
+		const [suite] = model.getOrCreateSuite("/project/test/foo_test.dart");
+		const test = new TestNode(suite, suite.node, 1, "my test", suite.path, 1, 1);
+		test.status = status;
+		test.outputEvents.push(...messages.map(print));
+		suite.storeTest(test);
+		suite.node.tests.push(test);
+		return model.serialize().suites[0].tests[0];
+	}
+
+	it("does not persist output for passing or skipped tests", () => {
+		assert.deepStrictEqual(serializeTest(TestStatus.Passed, ["hello"]).outputEvents, []);
+		assert.deepStrictEqual(serializeTest(TestStatus.Skipped, ["hello"]).outputEvents, []);
+	});
+
+	it("persists output for failing tests", () => {
+		assert.deepStrictEqual(serializeTest(TestStatus.Failed, ["hello"]).outputEvents, [print("hello")]);
+	});
+
+	it("keeps only the most recent output", () => {
+		const messages = Array.from({ length: 150 }, (_, i) => `line ${i}`);
+		const outputEvents = serializeTest(TestStatus.Failed, messages).outputEvents as PrintNotification[];
+		assert.equal(outputEvents.length, 100);
+		assert.equal(outputEvents[0].message, "line 50");
+		assert.equal(outputEvents[99].message, "line 149");
+	});
+
+	it("truncates long output", () => {
+		const [event] = serializeTest(TestStatus.Failed, ["x".repeat(20000)]).outputEvents as PrintNotification[];
+		assert.equal(event.message, `${"x".repeat(10000)}…`);
+	});
+});
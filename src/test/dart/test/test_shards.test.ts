@@ -0,0 +1,106 @@
+import * as assert from "assert";
+import { nullLogger } from "../../../shared/logging";
+import { TestSessionCoordinator } from "../../../shared/test/coordinator";
+import { formatShardProgress, makeShardIDsUnique } from "../../../shared/test/shards";
+import { TestTreeModel } from "../../../shared/test/test_model";
+import { GroupNotification, Notification, PrintNotification, SuiteNotification, TestDoneNotification, TestStartNotification } from "../../../shared/test_protocol";
+
+describe("test shards", () => {
+	const suitePath = "/project/test/foo_test.dart";
+
+	it("makes suite, group and test IDs unique across shards", () => {
+		const suite: SuiteNotification = { suite: { id: 0, path: "/project/test/foo_test.dart", platform: "vm" }, time: 0, type: "suite" };
+		const group: GroupNotification = { group: { id: 2, parentID: 1, suiteID: 0, testCount: 1 }, time: 0, type: "group" };
+		const testStart: TestStartNotification = { test: { groupIDs: [1, 2], id: 3, suiteID: 0 }, time: 0, type: "testStart" };
+		const testDone: TestDoneNotification = { hidden: false, result: "success", skipped: false, testID: 3, time: 0, type: "testDone" };
+		const print: PrintNotification = { message: "", messageType: "print", testID: 3, time: 0, type: "print" };
+
+		for (const notification of [suite, group, testStart, testDone, print])
+			makeShardIDsUnique(notification, 2, 4);
+
+		assert.equal(suite.suite.id, 2);
+		assert.equal(group.group.id, 10);
+		assert.equal(group.group.parentID, 6);
+		assert.equal(group.group.suiteID, 2);
+		assert.equal(testStart.test.id, 14);
+		assert.equal(testStart.test.suiteID, 2);
+		assert.deepStrictEqual(testStart.test.groupIDs, [6, 10]);
+		assert.equal(testDone.testID, 14);
+		assert.equal(print.testID, 14);
+	});
+
+	it("does not produce colliding IDs for different shards", () => {
+		const ids = new Set<number>();
+		for (let shard = 0; shard < 3; shard++) {
+			for (let id = 0; id < 10; id++) {
+				const testDone: TestDoneNotification = { hidden: false, result: "success", skipped: false, testID: id, time: 0, type: "testDone" };
+				makeShardIDsUnique(testDone, shard, 3);
+				ids.add(testDone.testID);
+			}
+		}
+		assert.equal(ids.size, 30);
+	});
+
+	it("leaves root groups without a parent", () => {
+		const group: GroupNotification = { group: { id: 1, suiteID: 0, testCount: 1 }, time: 0, type: "group" };
+		makeShardIDsUnique(group, 1, 2);
+		assert.equal(group.group.parentID, undefined);
+	});
+
+	it("merges the groups reported by each shard", async () => {
+		const model = new TestTreeModel({ showSkippedTests: true }, () => false);
+		const coordinator = new TestSessionCoordinator(nullLogger, model);
+		coordinator.flagShardedSession("sharded");
+
+		// Both shards load the whole suite, but run different tests.
+		const shardNotifications = (testName: string): Notification[] => [
+			{ suite: { id: 0, path: suitePath, platform: "vm" }, time: 0, type: "suite" } as SuiteNotification,
+			{ group: { id: 1, name: "outer", suiteID: 0, testCount: 2 }, time: 0, type: "group" } as GroupNotification,
+			{ group: { id: 2, name: "outer inner", parentID: 1, suiteID: 0, testCount: 2 }, time: 0, type: "group" } as GroupNotification,
+			{ test: { groupIDs: [1, 2], id: 3, name: `outer inner ${testName}`, suiteID: 0 }, time: 0, type: "testStart" } as TestStartNotification,
+			{ hidden: false, result: "success", skipped: false, testID: 3, time: 10, type: "testDone" } as TestDoneNotification,
+		];
+		for (let shard = 0; shard < 2; shard++) {
+			for (const notification of shardNotifications(`test ${shard + 1}`)) {
+				makeShardIDsUnique(notification, shard, 2);
+				await coordinator.handleNotification("sharded", suitePath, notification);
+			}
+		}
+
+		const suite = model.suites[suitePath];
+		const groups = suite.getAllGroups();
+		assert.deepStrictEqual(groups.map((g) => g.name), ["outer", "outer inner"]);
+		assert.deepStrictEqual(suite.node.groups.map((g) => g.name), ["outer"]);
+		assert.deepStrictEqual(groups[1].tests.map((t) => t.name), ["outer inner test 1", "outer inner test 2"]);
+	});
+
+	it("does not merge groups with the same name when not sharded", async () => {
+		const model = new TestTreeModel({ showSkippedTests: true }, () => false);
+		const coordinator = new TestSessionCoordinator(nullLogger, model);
+
+		const notifications: Notification[] = [
+			{ suite: { id: 0, path: suitePath, platform: "vm" }, time: 0, type: "suite" } as SuiteNotification,
+			{ group: { id: 1, name: "group", suiteID: 0, testCount: 1 }, time: 0, type: "group" } as GroupNotification,
+			{ test: { groupIDs: [1], id: 2, name: "group test 1", suiteID: 0 }, time: 0, type: "testStart" } as TestStartNotification,
+			{ hidden: false, result: "success", skipped: false, testID: 2, time: 10, type: "testDone" } as TestDoneNotification,
+			{ group: { id: 3, name: "group", suiteID: 0, testCount: 1 }, time: 0, type: "group" } as GroupNotification,
+			{ test: { groupIDs: [3], id: 4, name: "group test 2", suiteID: 0 }, time: 0, type: "testStart" } as TestStartNotification,
+			{ hidden: false, result: "success", skipped: false, testID: 4, time: 10, type: "testDone" } as TestDoneNotification,
+		];
+		for (const notification of notifications)
+			await coordinator.handleNotification("not-sharded", suitePath, notification);
+
+		const groups = model.suites[suitePath].node.groups;
+		assert.deepStrictEqual(groups.map((g) => g.tests.map((t) => t.name)), [["group test 1"], ["group test 2"]]);
+	});
+
+	it("formats progress for each shard", () => {
+		assert.equal(
+			formatShardProgress([
+				{ failed: 0, isDone: true, passed: 10 },
+				{ failed: 2, isDone: false, passed: 5 },
+			]),
+			"Shard 1/2: 10 passed (done) | Shard 2/2: 5 passed, 2 failed",
+		);
+	});
+});
@@ -0,0 +1,36 @@
+import * as assert from "assert";
+import { CpuProfile } from "../../../shared/debug/interfaces";
+import { buildCallTree, CallTreeNode } from "../../../shared/debug/cpu_profile";
+
+describe("cpu profile", () => {
+	// Functions: 0 = main, 1 = render, 2 = layout, 3 = paint.
+	const profile: CpuProfile = {
+		functions: ["main", "render", "layout", "paint"].map((name) => ({ name, selfTicks: 0, totalTicks: 0 })),
+		isolateId: "isolates/1",
+		lineTicks: {},
+		samplePeriod: 50,
+		// Stacks have the top of the stack first.
+		samples: [
+			[2, 1, 0],
+			[2, 1, 0],
+			[3, 1, 0],
+			[1, 0],
+			[3, 0],
+		],
+	};
+
+	// Formats a tree as "functionIndex:ticks/selfTicks" with children in brackets.
+	function format(nodes: CallTreeNode[]): string {
+		return nodes
+			.map((n) => `${n.functionIndex}:${n.ticks}/${n.selfTicks}${n.children.length ? `(${format(n.children)})` : ""}`)
+			.join(" ");
+	}
+
+	it("builds top-down trees from entry points", () => {
+		assert.equal(format(buildCallTree(profile, "topDown")), "0:5/0(1:4/1(2:2/2 3:1/1) 3:1/1)");
+	});
+
+	it("builds bottom-up trees from the top of the stack", () => {
+		assert.equal(format(buildCallTree(profile, "bottomUp")), "2:2/2(1:2/0(0:2/0)) 3:2/2(1:1/0(0:1/0) 0:1/0) 1:1/1(0:1/0)");
+	});
+});
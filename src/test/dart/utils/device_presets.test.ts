@@ -0,0 +1,24 @@
+import * as assert from "assert";
+import { getDevicePresetToolArgs } from "../../../shared/flutter/device_presets";
+
+describe("device presets", () => {
+	const preset = {
+		dartDefines: { API_URL: "https://staging.example.com", LOG_LEVEL: "debug" },
+		flavor: "staging",
+		name: "Staging",
+	};
+
+	it("builds flavor and dart-define args", () => {
+		assert.deepStrictEqual(getDevicePresetToolArgs(preset, []), [
+			"--flavor", "staging",
+			"--dart-define=API_URL=https://staging.example.com",
+			"--dart-define=LOG_LEVEL=debug",
+		]);
+	});
+
+	it("does not override args from the launch config", () => {
+		assert.deepStrictEqual(getDevicePresetToolArgs(preset, ["--flavor=prod", "--dart-define=LOG_LEVEL=info"]), [
+			"--dart-define=API_URL=https://staging.example.com",
+		]);
+	});
+});
@@ -0,0 +1,125 @@
+import * as assert from "assert";
+import * as path from "path";
+import { findDependentFiles, getDirectiveUris, resolveDirectiveUri, resolvePackageUriFromContextMaps } from "../../../shared/utils/imports";
+
+describe("getDirectiveUris", () => {
+	it("finds import, export and part directives", () => {
+		const contents = [
+			"library foo;",
+			"import 'dart:async';",
+			`import "package:foo/foo.dart" as foo;`,
+			"export 'src/bar.dart' show Bar;",
+			"part 'baz.dart';",
+			"part of 'other.dart';",
+			"// import 'commented.dart';",
+			"void main() {}",
+		].join("\n");
+		assert.deepStrictEqual(getDirectiveUris(contents), [
+			"dart:async",
+			"package:foo/foo.dart",
+			"src/bar.dart",
+			"baz.dart",
+		]);
+	});
+
+	it("finds all URIs in configurable imports and exports", () => {
+		const contents = [
+			"import 'src/stub.dart'",
+			"    if (dart.library.io) 'src/io.dart'",
+			"    if (dart.library.html == 'true') 'src/web.dart' as impl;",
+			"export 'src/a.dart' if (dart.library.io) 'src/b.dart';",
+		].join("\n");
+		assert.deepStrictEqual(getDirectiveUris(contents), [
+			"src/stub.dart",
+			"src/io.dart",
+			"src/web.dart",
+			"src/a.dart",
+			"src/b.dart",
+		]);
+	});
+
+	it("returns an empty list when there are no directives", () => {
+		assert.deepStrictEqual(getDirectiveUris("void main() {}"), []);
+	});
+});
+
+describe("resolveDirectiveUri", () => {
+	const fromFile = path.join("/", "project", "lib", "main.dart");
+	const resolvePackageUri = (uri: string) => uri === "package:foo/foo.dart" ? path.join("/", "foo", "lib", "foo.dart") : undefined;
+
+	it("ignores SDK libraries", () => {
+		assert.equal(resolveDirectiveUri("dart:async", fromFile, resolvePackageUri), undefined);
+	});
+
+	it("resolves package URIs", () => {
+		assert.equal(resolveDirectiveUri("package:foo/foo.dart", fromFile, resolvePackageUri), path.join("/", "foo", "lib", "foo.dart"));
+		assert.equal(resolveDirectiveUri("package:unknown/unknown.dart", fromFile, resolvePackageUri), undefined);
+	});
+
+	it("resolves relative URIs", () => {
+		assert.equal(resolveDirectiveUri("src/bar.dart", fromFile, resolvePackageUri), path.resolve("/", "project", "lib", "src", "bar.dart"));
+		assert.equal(resolveDirectiveUri("../test/baz.dart", fromFile, resolvePackageUri), path.resolve("/", "project", "test", "baz.dart"));
+	});
+});
+
+describe("resolvePackageUriFromContextMaps", () => {
+	const root = path.join("/", "repo");
+	const nested = path.join(root, "packages", "app");
+	const contextPackageMaps = {
+		[root]: { foo: [path.join("/", "old_foo", "lib")] },
+		[nested]: { foo: [path.join("/", "foo", "lib")] },
+	};
+
+	it("uses the package map of the innermost context root", () => {
+		assert.equal(
+			resolvePackageUriFromContextMaps("package:foo/src/foo.dart", path.join(nested, "lib", "main.dart"), contextPackageMaps),
+			path.join("/", "foo", "lib", "src", "foo.dart"),
+		);
+		assert.equal(
+			resolvePackageUriFromContextMaps("package:foo/src/foo.dart", path.join(root, "tool", "build.dart"), contextPackageMaps),
+			path.join("/", "old_foo", "lib", "src", "foo.dart"),
+		);
+	});
+
+	it("returns undefined for unknown packages and files outside of context roots", () => {
+		assert.equal(resolvePackageUriFromContextMaps("package:bar/bar.dart", path.join(nested, "lib", "main.dart"), contextPackageMaps), undefined);
+		assert.equal(resolvePackageUriFromContextMaps("package:foo/foo.dart", path.join("/", "other", "main.dart"), contextPackageMaps), undefined);
+	});
+});
+
+describe("findDependentFiles", () => {
+	const graph: { [file: string]: string[] } = {
+		"/lib/a.dart": [],
+		"/lib/b.dart": ["/lib/a.dart"],
+		"/lib/c.dart": [],
+		"/test/a_test.dart": ["/lib/a.dart"],
+		"/test/b_test.dart": ["/lib/b.dart"],
+		"/test/c_test.dart": ["/lib/c.dart"],
+	};
+	const files = Object.keys(graph).map((f) => path.normalize(f));
+	const getDependencies = (file: string) => graph[file.replace(/\\/g, "/")].map((f) => path.normalize(f));
+
+	it("includes direct and transitive dependents", () => {
+		const results = findDependentFiles([path.normalize("/lib/a.dart")], files, getDependencies);
+		assert.deepStrictEqual(results.sort(), [
+			path.normalize("/lib/a.dart"),
+			path.normalize("/lib/b.dart"),
+			path.normalize("/test/a_test.dart"),
+			path.normalize("/test/b_test.dart"),
+		]);
+	});
+
+	it("returns nothing for files that nothing depends on and are not known", () => {
+		assert.deepStrictEqual(findDependentFiles([path.normalize("/lib/unknown.dart")], files, getDependencies), []);
+	});
+
+	it("handles import cycles", () => {
+		const cyclicGraph: { [file: string]: string[] } = {
+			"/lib/x.dart": ["/lib/y.dart"],
+			"/lib/y.dart": ["/lib/x.dart"],
+		};
+		const cyclicFiles = Object.keys(cyclicGraph).map((f) => path.normalize(f));
+		const results = findDependentFiles([path.normalize("/lib/x.dart")], cyclicFiles, (file) => cyclicGraph[file.replace(/\\/g, "/")].map((f) => path.normalize(f)));
+		assert.deepStrictEqual(results.sort(), cyclicFiles.sort());
+	});
+});
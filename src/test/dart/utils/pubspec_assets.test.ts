@@ -0,0 +1,67 @@
+import * as assert from "assert";
+import * as path from "path";
+import { getArbDir, getAssetChangeAction, getAssetWatchPatterns, parsePubspecAssets } from "../../../shared/flutter/pubspec_assets";
+
+describe("pubspec assets", () => {
+	const pubspec = [
+		"name: my_app",
+		"dependencies:",
+		"  flutter:",
+		"    sdk: flutter",
+		"",
+		"flutter:",
+		"  uses-material-design: true",
+		"  generate: true # For localizations",
+		"  assets:",
+		"    - assets/images/",
+		"    - 'assets/config.json'",
+		"    - path: assets/flavored.json",
+		"      flavors:",
+		"        - staging",
+		"  fonts:",
+		"    - family: Roboto",
+		"      fonts:",
+		"        - asset: fonts/Roboto-Regular.ttf",
+		"        - asset: fonts/Roboto-Bold.ttf",
+		"          weight: 700",
+	].join("\n");
+
+	it("parses assets and fonts from the flutter section", () => {
+		assert.deepStrictEqual(parsePubspecAssets(pubspec), {
+			assets: ["assets/images/", "assets/config.json", "assets/flavored.json"],
+			fonts: ["fonts/Roboto-Regular.ttf", "fonts/Roboto-Bold.ttf"],
+			generatesLocalizations: true,
+		});
+	});
+
+	it("reads the ARB folder from l10n.yaml", () => {
+		assert.equal(getArbDir(undefined), "lib/l10n");
+		assert.equal(getArbDir("arb-dir: lib/src/l10n/\ntemplate-arb-file: app_en.arb"), "lib/src/l10n");
+	});
+
+	it("decides how to apply changes to assets", () => {
+		const assets = parsePubspecAssets(pubspec);
+		const action = (file: string) => getAssetChangeAction(file.split("/").join(path.sep), assets, "lib/l10n");
+
+		assert.equal(action("assets/config.json"), "reload");
+		assert.equal(action("assets/images/logo.png"), "reload");
+		assert.equal(action("assets/images/2.0x/logo.png"), "reload");
+		assert.equal(action("lib/l10n/app_en.arb"), "reload");
+		assert.equal(action("fonts/Roboto-Bold.ttf"), "restart");
+		assert.equal(action("assets/images/icons/logo.png"), undefined);
+		assert.equal(action("README.md"), undefined);
+	});
+
+	it("builds patterns to watch for asset changes", () => {
+		assert.deepStrictEqual(getAssetWatchPatterns(parsePubspecAssets(pubspec), "lib/l10n"), [
+			"assets/images/**",
+			"assets/config.json",
+			"assets/*/config.json",
+			"assets/flavored.json",
+			"assets/*/flavored.json",
+			"fonts/Roboto-Regular.ttf",
+			"fonts/Roboto-Bold.ttf",
+			"lib/l10n/*.arb",
+		]);
+	});
+});
@@ -0,0 +1,69 @@
+import * as assert from "assert";
+import { Declaration, DeclarationKind, getChangesRequiringRestart } from "../../../shared/flutter/reload_compatibility";
+
+function declaration(kind: DeclarationKind, name: string, text: string, options?: { modifiers?: string, children?: Declaration[] }): Declaration {
+	return { children: options?.children ?? [], kind, modifiers: options?.modifiers ?? "", name, text };
+}
+
+describe("reload compatibility", () => {
+	it("allows changes to method bodies", () => {
+		const previous = [declaration("class", "Foo", "class Foo { void bar() { print(1); } }", { children: [declaration("method", "bar", "void bar() { print(1); }")] })];
+		const current = [declaration("class", "Foo", "class Foo { void bar() { print(2); } }", { children: [declaration("method", "bar", "void bar() { print(2); }")] })];
+		assert.deepStrictEqual(getChangesRequiringRestart(previous, current), []);
+	});
+
+	it("requires a restart for changes to main()", () => {
+		const reasons = getChangesRequiringRestart(
+			[declaration("function", "main", "void main() => runApp(MyApp());")],
+			[declaration("function", "main", "void main() => runApp(MyOtherApp());")],
+		);
+		assert.deepStrictEqual(reasons, ["main() changed"]);
+	});
+
+	it("requires a restart for changes to initState() and static initializers", () => {
+		const previous = [declaration("class", "_HomeState", "class _HomeState { ... }", {
+			children: [
+				declaration("method", "initState", "void initState() { count = 1; }"),
+				declaration("field", "label", "label = 'a'", { modifiers: "  static final " }),
+				declaration("field", "title", "title = 'a'", { modifiers: "  final " }),
+			],
+		})];
+		const current = [declaration("class", "_HomeState", "class _HomeState { .... }", {
+			children: [
+				declaration("method", "initState", "void initState() { count = 2; }"),
+				declaration("field", "label", "label = 'b'", { modifiers: "  static final " }),
+				declaration("field", "title", "title = 'b'", { modifiers: "  final " }),
+			],
+		})];
+		assert.deepStrictEqual(getChangesRequiringRestart(previous, current), [
+			"_HomeState.initState() changed",
+			"initializer of _HomeState.label changed",
+		]);
+	});
+
+	it("allows changes to const initializers", () => {
+		const reasons = getChangesRequiringRestart(
+			[declaration("variable", "padding", "padding = 8.0", { modifiers: "const " })],
+			[declaration("variable", "padding", "padding = 16.0", { modifiers: "const " })],
+		);
+		assert.deepStrictEqual(reasons, []);
+	});
+
+	it("requires a restart for changes to enums and type parameters", () => {
+		const reasons = getChangesRequiringRestart(
+			[
+				declaration("enum", "Color", "enum Color { red, green }"),
+				declaration("class", "Box", "class Box<T extends List<int>> { }"),
+			],
+			[
+				declaration("enum", "Color", "enum Color { red, green, blue }"),
+				declaration("class", "Box", "class Box<T extends List<int>, U> { }"),
+			],
+		);
+		assert.deepStrictEqual(reasons, ["enum Color changed", "type parameters of Box changed"]);
+	});
+
+	it("allows new declarations", () => {
+		assert.deepStrictEqual(getChangesRequiringRestart([], [declaration("enum", "Color", "enum Color { red }")]), []);
+	});
+});
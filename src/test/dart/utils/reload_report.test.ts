@@ -0,0 +1,52 @@
+import * as assert from "assert";
+import { getMultiSessionReloadMessage, parseReloadRejectionReasons } from "../../../shared/flutter/reload_report";
+
+describe("reload report", () => {
+	it("parses class-level rejection reasons", () => {
+		const message = [
+			"Reload rejected: Const class cannot become non-const: Library:'file:///app/lib/main.dart' Class: Foo",
+			"Enum class cannot be redefined to be a non-enum class: Library:'file:///app/lib/colors.dart' Class: Bar",
+		].join("\n");
+
+		assert.deepStrictEqual(parseReloadRejectionReasons(message), [
+			{
+				className: "Foo",
+				libraryUri: "file:///app/lib/main.dart",
+				message: "Const class cannot become non-const",
+			},
+			{
+				className: "Bar",
+				libraryUri: "file:///app/lib/colors.dart",
+				message: "Enum class cannot be redefined to be a non-enum class",
+			},
+		]);
+	});
+
+	it("parses reasons without a library", () => {
+		const reasons = parseReloadRejectionReasons("Hot reload was rejected:\nShape changing const class change is not supported\n");
+		assert.deepStrictEqual(reasons, [{ className: undefined, libraryUri: undefined, message: "Shape changing const class change is not supported" }]);
+	});
+
+	it("returns no reasons for other failures", () => {
+		assert.deepStrictEqual(parseReloadRejectionReasons("lib/main.dart:3:1: Error: Expected ';' after this."), []);
+	});
+
+	it("reports reloads that completed on all sessions", () => {
+		assert.deepStrictEqual(getMultiSessionReloadMessage("Hot reload", [{ sessionName: "Pixel 6" }, { sessionName: "Chrome" }]), {
+			isFailure: false,
+			message: "Hot reload completed on 2 sessions",
+		});
+	});
+
+	it("lists the sessions a reload failed on", () => {
+		const results = [
+			{ sessionName: "Pixel 6" },
+			{ error: "Compilation failed", sessionName: "Chrome" },
+			{ error: "Reload rejected", sessionName: "iPad" },
+		];
+		assert.deepStrictEqual(getMultiSessionReloadMessage("Hot restart", results), {
+			isFailure: true,
+			message: "Hot restart failed on 2 of 3 sessions. Chrome: Compilation failed; iPad: Reload rejected",
+		});
+	});
+});
@@ -0,0 +1,18 @@
+import * as assert from "assert";
+import { removeTestNameFilters } from "../../../shared/utils/test";
+
+describe("removeTestNameFilters", () => {
+	it("removes name filters in all forms", () => {
+		assert.deepStrictEqual(
+			removeTestNameFilters(["--name", "a", "-n", "b", "--name=c", "--plain-name", "d", "-N", "e", "--plain-name=f"]),
+			[],
+		);
+	});
+
+	it("keeps other args", () => {
+		assert.deepStrictEqual(
+			removeTestNameFilters(["--tags", "slow", "--name", "a", "--dart-define=FOO=bar", "--update-goldens"]),
+			["--tags", "slow", "--dart-define=FOO=bar", "--update-goldens"],
+		);
+	});
+});
@@ -1,9 +1,11 @@
 import * as assert from "assert";
+import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
 import * as sinon from "sinon";
 import * as vs from "vscode";
 import { debugAnywayAction, showErrorsAction } from "../../../shared/constants";
+import { AllocationProfile, ClassInstances, CpuProfile, LineCoverage } from "../../../shared/debug/interfaces";
 import { DebuggerType } from "../../../shared/enums";
 import { versionIsAtLeast } from "../../../shared/utils";
 import { faint } from "../../../shared/utils/colors";
@@ -11,7 +13,7 @@ import { fsPath, getRandomInt } from "../../../shared/utils/fs";
 import { resolvedPromise } from "../../../shared/utils/promises";
 import { DartDebugClient } from "../../dart_debug_client";
 import { createDebugClient, disableDdsForTestForWindows, ensureFrameCategories, ensureMapEntry, ensureNoVariable, ensureVariable, ensureVariableWithIndex, getVariablesTree, isExternalPackage, isLocalPackage, isSdkFrame, isUserCode, spawnDartProcessPaused, startDebugger, waitAllThrowIfTerminates } from "../../debug_helpers";
-import { activate, breakpointFor, closeAllOpenFiles, defer, delay, ensureArrayContainsArray, extApi, getAttachConfiguration, getDefinition, getLaunchConfiguration, getPackages, getResolvedDebugConfiguration, helloWorldBrokenFile, helloWorldDeferredEntryFile, helloWorldDeferredScriptFile, helloWorldExampleSubFolder, helloWorldExampleSubFolderMainFile, helloWorldFolder, helloWorldGettersFile, helloWorldGoodbyeFile, helloWorldHttpFile, helloWorldInspectionFile as helloWorldInspectFile, helloWorldLocalPackageFile, helloWorldLongRunningFile, helloWorldMainFile, helloWorldPartEntryFile, helloWorldPartFile, helloWorldStack60File, helloWorldThrowInExternalPackageFile, helloWorldThrowInLocalPackageFile, helloWorldThrowInSdkFile, openFile, positionOf, sb, setConfigForTest, uriFor, waitForResult, watchPromise, writeBrokenDartCodeIntoFileForTest } from "../../helpers";
+import { activate, breakpointFor, closeAllOpenFiles, defer, delay, ensureArrayContainsArray, extApi, getAttachConfiguration, getDefinition, getLaunchConfiguration, getPackages, getResolvedDebugConfiguration, helloWorldBrokenFile, helloWorldDeferredEntryFile, helloWorldDeferredScriptFile, helloWorldExampleSubFolder, helloWorldExampleSubFolderMainFile, helloWorldFolder, helloWorldGettersFile, helloWorldGoodbyeFile, helloWorldHttpFile, helloWorldInspectionFile as helloWorldInspectFile, helloWorldLocalPackageFile, helloWorldLongRunningFile, helloWorldMainFile, helloWorldPartEntryFile, helloWorldPartFile, helloWorldStack60File, helloWorldStaticsFile, helloWorldThrowInExternalPackageFile, helloWorldThrowInLocalPackageFile, helloWorldThrowInSdkFile, openFile, positionOf, sb, setConfigForTest, uriFor, waitForResult, watchPromise, writeBrokenDartCodeIntoFileForTest } from "../../helpers";
 
 
 describe("dart cli debugger", () => {
@@ -456,6 +458,41 @@ describe("dart cli debugger", () => {
 		);
 	});
 
+	it("can step back through recorded pauses if stepHistorySize is set", async () => {
+		await openFile(helloWorldMainFile);
+		const breakpointLine = positionOf("^// BREAKPOINT1").line + 1; // positionOf is 0-based, but seems to want 1-based
+		const config = await startDebugger(dc, helloWorldMainFile, { stepHistorySize: 10 });
+		await dc.hitBreakpoint(config, {
+			line: breakpointLine,
+			path: fsPath(helloWorldMainFile),
+		});
+		const thread = await dc.getMainThread();
+
+		// Step over, so we're on a different line to the recorded breakpoint.
+		let stepLine: number | undefined;
+		await waitAllThrowIfTerminates(dc,
+			dc.assertStoppedLocation("step", { path: fsPath(helloWorldMainFile) })
+				.then((response) => stepLine = response.body.stackFrames[0].line),
+			dc.nextRequest({ threadId: thread.id }),
+		);
+		assert.notEqual(stepLine, breakpointLine);
+
+		// Step back to the breakpoint.
+		await waitAllThrowIfTerminates(dc,
+			dc.assertStoppedLocation("breakpoint", { path: fsPath(helloWorldMainFile), line: breakpointLine }),
+			dc.stepBackRequest({ threadId: thread.id }),
+		);
+		const variables = await dc.getTopFrameVariables("Locals");
+		ensureVariable(variables, undefined, "s", `"Hello!"`);
+		ensureVariable(variables, undefined, "l", `List (12 items)`);
+
+		// Continuing returns to the live pause rather than resuming.
+		await waitAllThrowIfTerminates(dc,
+			dc.assertStoppedLocation("step", { path: fsPath(helloWorldMainFile), line: stepLine }),
+			dc.continueRequest({ threadId: thread.id }),
+		);
+	});
+
 	it("downloads SDK source code from the VM", async function () {
 		if (!extApi.dartCapabilities.includesSourceForSdkLibs) {
 			this.skip();
@@ -654,6 +691,36 @@ describe("dart cli debugger", () => {
 	it("does not stop at a breakpoint with a condition returning null", testBreakpointCondition("print('test');", false));
 	it("reports errors evaluating breakpoint conditions", testBreakpointCondition("1 + '1'", false, "Debugger failed to evaluate expression `1 + '1'`"));
 
+	it("stops only on hits matching a breakpoint's hitCondition", async () => {
+		await openFile(helloWorldStaticsFile);
+		const config = await startDebugger(dc, helloWorldStaticsFile);
+		await waitAllThrowIfTerminates(dc,
+			dc.waitForEvent("initialized")
+				.then(() => dc.setBreakpointsRequest({
+					breakpoints: [{
+						hitCondition: "% 3 == 0",
+						line: positionOf("^// BREAKPOINT2").line + 1, // positionOf is 0-based, but seems to want 1-based
+					}],
+					source: { path: fsPath(helloWorldStaticsFile) },
+				}))
+				.then(() => dc.configurationDoneRequest()),
+			dc.waitForEvent("stopped"),
+			dc.launch(config),
+		);
+
+		let variables = await dc.getTopFrameVariables("Locals");
+		ensureVariable(variables, "i", "i", "3");
+
+		const thread = await dc.getMainThread();
+		await waitAllThrowIfTerminates(dc,
+			dc.waitForEvent("stopped"),
+			dc.continueRequest({ threadId: thread.id }),
+		);
+
+		variables = await dc.getTopFrameVariables("Locals");
+		ensureVariable(variables, "i", "i", "6");
+	});
+
 	it("logs expected text (and does not stop) at a logpoint", async () => {
 		await openFile(helloWorldMainFile);
 		const config = await startDebugger(dc, helloWorldMainFile);
@@ -808,6 +875,167 @@ describe("dart cli debugger", () => {
 		ensureNoVariable(classInstance, "throws");
 	});
 
+	it("provides static fields and globals when stopped at a breakpoint", async () => {
+		await openFile(helloWorldStaticsFile);
+		const config = await startDebugger(dc, helloWorldStaticsFile);
+		await dc.hitBreakpoint(config, {
+			line: positionOf("^// BREAKPOINT1").line + 1, // positionOf is 0-based, but seems to want 1-based
+			path: fsPath(helloWorldStaticsFile),
+		});
+
+		const staticFields = await dc.getTopFrameVariables("Static Fields");
+		ensureVariable(staticFields, "Counter.instances", "instances", `1`);
+		ensureNoVariable(staticFields, "value");
+
+		const globals = await dc.getTopFrameVariables("Globals");
+		ensureVariable(globals, "topLevelString", "topLevelString", `"Hello!"`);
+		ensureVariable(globals, "topLevelList", "topLevelList", `List (3 items)`);
+
+		const listVariables = await dc.getVariables(globals.find((v) => v.name === "topLevelList")!.variablesReference);
+		ensureVariableWithIndex(listVariables, 0, "topLevelList[0]", "[0]", "1");
+	});
+
+	it("stops with reason 'data breakpoint' when a watched field changes", async () => {
+		await openFile(helloWorldStaticsFile);
+		const config = await startDebugger(dc, helloWorldStaticsFile);
+		await dc.hitBreakpoint(config, {
+			line: positionOf("^// BREAKPOINT1").line + 1, // positionOf is 0-based, but seems to want 1-based
+			path: fsPath(helloWorldStaticsFile),
+		});
+
+		const variables = await dc.getTopFrameVariables("Locals");
+		const thisVariable = variables.find((v) => v.name === "this")!;
+		const info = await dc.dataBreakpointInfoRequest({ variablesReference: thisVariable.variablesReference, name: "value" });
+		assert.ok(info.body.dataId);
+		assert.equal(info.body.description, "Break when this.value changes");
+
+		const result = await dc.setDataBreakpointsRequest({ breakpoints: [{ dataId: info.body.dataId }] });
+		assert.equal(result.body.breakpoints[0].verified, true);
+
+		// Stepping over the increment should report the change.
+		const thread = await dc.getMainThread();
+		await waitAllThrowIfTerminates(dc,
+			dc.waitForEvent("stopped").then((event) => {
+				assert.equal(event.body.reason, "data breakpoint");
+				assert.equal(event.body.description, "this.value changed");
+			}),
+			dc.nextRequest({ threadId: thread.id }),
+		);
+	});
+
+	it("stops at a function breakpoint set by qualified name", async () => {
+		await openFile(helloWorldStaticsFile);
+		const config = await startDebugger(dc, helloWorldStaticsFile);
+		await waitAllThrowIfTerminates(dc,
+			dc.waitForEvent("initialized")
+				.then(() => dc.setFunctionBreakpointsRequest({ breakpoints: [{ name: "Counter.increment" }] }))
+				// Breakpoints are pending until an isolate is runnable.
+				.then((response) => assert.equal(response.body.breakpoints[0].verified, true))
+				.then(() => dc.configurationDoneRequest()),
+			dc.waitForEvent("stopped").then((event) => assert.equal(event.body.reason, "breakpoint")),
+			dc.launch(config),
+		);
+
+		const stack = await dc.getStack();
+		assert.equal(stack.body.stackFrames[0].name, "Counter.increment");
+	});
+
+	it("marks function breakpoints that can't be resolved as unverified", async () => {
+		await openFile(helloWorldStaticsFile);
+		const config = await startDebugger(dc, helloWorldStaticsFile);
+		await waitAllThrowIfTerminates(dc,
+			dc.waitForEvent("initialized")
+				.then(() => dc.setFunctionBreakpointsRequest({ breakpoints: [{ name: "Counter.doesNotExist" }] }))
+				.then(() => dc.configurationDoneRequest()),
+			dc.waitForEvent("breakpoint").then((event) => assert.equal(event.body.breakpoint.verified, false)),
+			dc.launch(config),
+		);
+	});
+
+	it("provides typed data as memory that can be read", async () => {
+		await openFile(helloWorldStaticsFile);
+		const config = await startDebugger(dc, helloWorldStaticsFile);
+		await dc.hitBreakpoint(config, {
+			line: positionOf("^// BREAKPOINT2").line + 1, // positionOf is 0-based, but seems to want 1-based
+			path: fsPath(helloWorldStaticsFile),
+		});
+
+		const variables = await dc.getTopFrameVariables("Locals");
+		const bytesVariable = variables.find((v) => v.name === "bytes")!;
+		assert.ok(bytesVariable.memoryReference);
+		assert.equal(variables.find((v) => v.name === "i")!.memoryReference, undefined);
+
+		const memory = await dc.readMemory(bytesVariable.memoryReference, 1, 10);
+		assert.equal(memory.address, "1");
+		assert.deepStrictEqual([...Buffer.from(memory.data!, "base64")], [2, 3, 255]);
+		assert.equal(memory.unreadableBytes, 7);
+	});
+
+	it("provides an allocation profile and live instances of a class", async () => {
+		await openFile(helloWorldStaticsFile);
+		const config = await startDebugger(dc, helloWorldStaticsFile);
+		await dc.hitBreakpoint(config, {
+			line: positionOf("^// BREAKPOINT1").line + 1, // positionOf is 0-based, but seems to want 1-based
+			path: fsPath(helloWorldStaticsFile),
+		});
+
+		const profile: AllocationProfile = (await dc.customRequest("getAllocationProfile")).body;
+		const counterClass = profile.classes.find((c) => c.className === "Counter");
+		assert.ok(counterClass);
+		assert.equal(counterClass.instances, 1);
+		assert.ok(counterClass.bytes > 0);
+
+		const result: ClassInstances = (await dc.customRequest("getInstances", { isolateId: profile.isolateId, classId: counterClass.classId })).body;
+		assert.equal(result.totalCount, 1);
+		assert.equal(result.instances.length, 1);
+		const fields = await dc.getVariables(result.instances[0].variablesReference);
+		ensureVariable(fields, undefined, "value", "0");
+	});
+
+	it("provides a CPU profile between start and stop requests", async () => {
+		await openFile(helloWorldLongRunningFile);
+		const config = await startDebugger(dc, helloWorldLongRunningFile);
+		await waitAllThrowIfTerminates(dc,
+			dc.configurationSequence(),
+			dc.launch(config),
+		);
+		await dc.tryWaitUntilGlobalEvaluationIsAvailable();
+
+		await dc.customRequest("startCpuProfile");
+		// Do some work so that there are samples to collect.
+		await dc.evaluateRequest({ expression: `List.generate(5000000, (i) => i * i).fold<int>(0, (a, b) => a + b)` });
+		const profile: CpuProfile = (await dc.customRequest("stopCpuProfile")).body;
+		assert.ok(profile.isolateId);
+		assert.ok(profile.samplePeriod > 0);
+		assert.ok(profile.samples.length > 0);
+		assert.ok(profile.functions.length > 0);
+		for (const stack of profile.samples)
+			assert.ok(stack.every((functionIndex) => functionIndex >= 0 && functionIndex < profile.functions.length));
+		for (const func of profile.functions.filter((f) => f.filePath))
+			assert.ok(fs.existsSync(func.filePath!));
+	});
+
+	it("collects coverage when isolates exit if collectCoverage is set", async () => {
+		await openFile(helloWorldStaticsFile);
+		const config = await startDebugger(dc, helloWorldStaticsFile, { collectCoverage: true });
+		const lcovFile = path.join(fsPath(helloWorldFolder), "coverage", "debug.lcov.info");
+		defer(() => fs.rmdirSync(path.dirname(lcovFile), { recursive: true }));
+
+		let coverage: { [filePath: string]: LineCoverage } | undefined;
+		await waitAllThrowIfTerminates(dc,
+			dc.configurationSequence(),
+			dc.waitForEvent("dart.coverage").then((event) => coverage = event.body.coverage),
+			dc.waitForEvent("terminated"),
+			dc.launch(config),
+		);
+
+		const lines = coverage![fsPath(helloWorldStaticsFile)];
+		assert.ok(lines);
+		const incrementLine = positionOf("^// BREAKPOINT1").line + 1; // positionOf is 0-based, but seems to want 1-based
+		assert.equal(lines[incrementLine], 1);
+		assert.ok(fs.readFileSync(lcovFile).toString().includes(`SF:${fsPath(helloWorldStaticsFile)}`));
+	});
+
 	it("watch expressions provide same info as locals", async () => {
 		await openFile(helloWorldMainFile);
 		const config = await startDebugger(dc, helloWorldMainFile);
@@ -1109,6 +1337,48 @@ insp=<inspected variable>
 		);
 	});
 
+	it("stops on exception matching an exception filter condition", async () => {
+		await openFile(helloWorldBrokenFile);
+		const config = await startDebugger(dc, helloWorldBrokenFile);
+		await waitAllThrowIfTerminates(dc,
+			dc.waitForEvent("initialized")
+				.then(() => dc.setExceptionBreakpointsRequest({ filters: [], filterOptions: [{ filterId: "Unhandled", condition: "Exception, !dart:" }] }))
+				.then(() => dc.configurationDoneRequest()),
+			dc.assertStoppedLocation("exception", {
+				line: positionOf("^throw").line + 1, // positionOf is 0-based, but seems to want 1-based
+				path: fsPath(helloWorldBrokenFile),
+			}),
+			dc.launch(config),
+		);
+	});
+
+	it("does not stop on exception not matching an exception filter condition", async () => {
+		await openFile(helloWorldBrokenFile);
+		const config = await startDebugger(dc, helloWorldBrokenFile);
+		await waitAllThrowIfTerminates(dc,
+			dc.waitForEvent("initialized")
+				.then(() => dc.setExceptionBreakpointsRequest({ filters: [], filterOptions: [{ filterId: "Unhandled", condition: "StateError" }] }))
+				.then(() => dc.configurationDoneRequest()),
+			dc.waitForEvent("terminated"),
+			dc.launch(config),
+		);
+	});
+
+	it("stops on uncaught exception not matching the condition for all exceptions", async () => {
+		await openFile(helloWorldBrokenFile);
+		const config = await startDebugger(dc, helloWorldBrokenFile);
+		await waitAllThrowIfTerminates(dc,
+			dc.waitForEvent("initialized")
+				.then(() => dc.setExceptionBreakpointsRequest({ filters: ["Unhandled"], filterOptions: [{ filterId: "All", condition: "StateError" }] }))
+				.then(() => dc.configurationDoneRequest()),
+			dc.assertStoppedLocation("exception", {
+				line: positionOf("^throw").line + 1, // positionOf is 0-based, but seems to want 1-based
+				path: fsPath(helloWorldBrokenFile),
+			}),
+			dc.launch(config),
+		);
+	});
+
 	it("does not stop on exception in noDebug mode", async () => {
 		await openFile(helloWorldBrokenFile);
 		const config = await startDebugger(dc, helloWorldBrokenFile);
@@ -1,4 +1,5 @@
 import * as assert from "assert";
+import * as path from "path";
 import * as vs from "vscode";
 import { isWin } from "../../../shared/constants";
 import { DebuggerType, TestStatus } from "../../../shared/enums";
@@ -9,7 +10,7 @@ import { LspTestOutlineInfo, LspTestOutlineVisitor } from "../../../shared/utils
 import * as testUtils from "../../../shared/utils/test";
 import { DartDebugClient } from "../../dart_debug_client";
 import { createDebugClient, expectTopLevelTestNodeCount, startDebugger, waitAllThrowIfTerminates } from "../../debug_helpers";
-import { activate, captureDebugSessionCustomEvents, clearTestTree, extApi, getCodeLens, getExpectedResults, getPackages, getResolvedDebugConfiguration, helloWorldTestBrokenFile, helloWorldTestDupeNameFile, helloWorldTestMainFile, helloWorldTestShortFile, helloWorldTestSkipFile, helloWorldTestTreeFile, logger, makeTextTree, openFile, positionOf, setConfigForTest, waitForResult } from "../../helpers";
+import { activate, captureDebugSessionCustomEvents, clearTestTree, extApi, getCodeLens, getExpectedResults, getPackages, getResolvedDebugConfiguration, helloWorldFolder, helloWorldTestBrokenFile, helloWorldTestDupeNameFile, helloWorldTestMainFile, helloWorldTestShortFile, helloWorldTestSkipFile, helloWorldTestTreeFile, logger, makeTextTree, openFile, positionOf, setConfigForTest, waitForResult } from "../../helpers";
 
 describe("dart test debugger", () => {
 	// We have tests that require external packages.
@@ -189,6 +190,60 @@ describe("dart test debugger", () => {
 		assert.strictEqual(actualResults?.length, 0);
 	});
 
+	it("restores serialized results as stale nodes", async () => {
+		await openFile(helloWorldTestTreeFile);
+		const config = await startDebugger(dc, helloWorldTestTreeFile);
+		config.noDebug = true;
+		await waitAllThrowIfTerminates(dc,
+			dc.configurationSequence(),
+			dc.waitForEvent("terminated"),
+			dc.launch(config),
+		);
+
+		// Round-trip through JSON to ensure nothing relies on object identity.
+		const results = JSON.parse(JSON.stringify(extApi.testTreeModel.serialize()));
+		extApi.testTreeModel.clearAllResults();
+		extApi.testTreeModel.restore(results);
+
+		const expectedResults = getExpectedResults();
+		const actualResults = (await makeTextTree(helloWorldTestTreeFile, extApi.testTreeProvider)).join("\n");
+		assert.ok(actualResults);
+		assert.equal(actualResults, expectedResults);
+
+		// Everything should be stale since it didn't come from a run in this session.
+		const activeResults = await makeTextTree(helloWorldTestTreeFile, extApi.testTreeProvider, { onlyActive: true });
+		assert.equal(activeResults.length, 0);
+	});
+
+	it("builds the expected tree from a saved JSON reporter log", async () => {
+		await openFile(helloWorldTestTreeFile);
+		const config = await startDebugger(dc, helloWorldTestTreeFile);
+		config.noDebug = true;
+		// Capture the notifications in the same format as the JSON reporter writes them, with
+		// suite paths relative to the project as they would be when run on CI.
+		const lines: string[] = ["Resolving dependencies..."];
+		dc.on("dart.testRunNotification", (e: vs.DebugSessionCustomEvent) => {
+			const notification = JSON.parse(JSON.stringify(e.body.notification));
+			if (notification.type === "suite")
+				notification.suite.path = path.relative(fsPath(helloWorldFolder), notification.suite.path);
+			lines.push(JSON.stringify(notification));
+		});
+		await waitAllThrowIfTerminates(dc,
+			dc.configurationSequence(),
+			dc.waitForEvent("terminated"),
+			dc.launch(config),
+		);
+		await clearTestTree();
+
+		const suiteCount = await extApi.testCoordinator.replayNotifications(lines, (suitePath) => path.join(fsPath(helloWorldFolder), suitePath));
+		assert.equal(suiteCount, 1);
+
+		const expectedResults = getExpectedResults();
+		const actualResults = (await makeTextTree(helloWorldTestTreeFile, extApi.testTreeProvider)).join("\n");
+		assert.ok(actualResults);
+		assert.equal(actualResults, expectedResults);
+	});
+
 	it("builds the expected tree if tests are run in multiple overlapping sessions", async () => {
 		// https://github.com/Dart-Code/Dart-Code/issues/2934
 		await openFile(helloWorldTestShortFile);
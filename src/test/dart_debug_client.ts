@@ -203,7 +203,7 @@ export class DartDebugClient extends DebugClient {
 		return this.stackTraceRequest({ threadId: thread.id, startFrame, levels });
 	}
 
-	public async getTopFrameVariables(scope: "Exception" | "Locals"): Promise<DebugProtocol.Variable[]> {
+	public async getTopFrameVariables(scope: "Exception" | "Locals" | "Static Fields" | "Globals"): Promise<DebugProtocol.Variable[]> {
 		const stack = await this.getStack();
 		const scopes = await this.scopesRequest({ frameId: stack.body.stackFrames[0].id });
 		const exceptionScope = scopes.body.scopes.find((s) => s.name === scope);
@@ -216,6 +216,11 @@ export class DartDebugClient extends DebugClient {
 		return variables.body.variables;
 	}
 
+	public async readMemory(memoryReference: string, offset: number, count: number): Promise<NonNullable<DebugProtocol.ReadMemoryResponse["body"]>> {
+		const response = await this.customRequest("readMemory", { memoryReference, offset, count }) as DebugProtocol.ReadMemoryResponse;
+		return response.body!;
+	}
+
 	public async evaluateForFrame(expression: string, context?: string): Promise<{
 		result: string;
 		type?: string;
@@ -3,9 +3,10 @@ import { commands, window } from "vscode";
 import { DaemonCapabilities } from "../../shared/capabilities/flutter";
 import { runFlutterCreatePrompt, yesAction } from "../../shared/constants";
 import * as f from "../../shared/flutter/daemon_interfaces";
-import { CustomEmulatorDefinition, IAmDisposable, IFlutterDaemon } from "../../shared/interfaces";
+import { CustomEmulatorDefinition, DevicePreset, IAmDisposable, IFlutterDaemon } from "../../shared/interfaces";
 import { UnknownResponse } from "../../shared/services/interfaces";
 import { FlutterDeviceManager } from "../../shared/vscode/device_manager";
+import { Context } from "../../shared/vscode/workspace";
 import { logger, sb } from "../helpers";
 import { FakeProcessStdIOService } from "../services/fake_stdio_service";
 import sinon = require("sinon");
@@ -17,7 +18,7 @@ describe("device_manager", () => {
 	beforeEach(() => {
 		daemon = new FakeFlutterDaemon();
 		// TODO: Tests for custom emulators.
-		dm = new FlutterDeviceManager(logger, daemon, { flutterCustomEmulators: customEmulators, flutterSelectDeviceWhenConnected: true, flutterShowEmulators: "local" });
+		dm = new FlutterDeviceManager(logger, daemon, { flutterCustomEmulators: customEmulators, flutterDevicePresets: devicePresets, flutterSelectDeviceWhenConnected: true, flutterShowEmulators: "local" });
 	});
 
 	afterEach(() => {
@@ -200,6 +201,81 @@ describe("device_manager", () => {
 		assert.equal(flutterCreateCommand.called, true);
 
 	});
+
+	it("allows selecting multiple connected devices", async () => {
+		await daemon.connect(emulatedAndroidMobile, true);
+		await daemon.connect(physicalAndroidMobile, true);
+
+		const showQuickPick = sb.stub(window, "showQuickPick").callsFake(async (items: any) => items);
+		const devices = await dm.showMultipleDevicePicker();
+
+		// Only connected devices are offered, with the current device pre-selected.
+		const items: Array<{ device: f.Device, picked: boolean }> = showQuickPick.firstCall.args[0];
+		assert.deepStrictEqual(items.map((i) => i.device.id).sort(), [emulatedAndroidMobile.id, physicalAndroidMobile.id].sort());
+		assert.deepStrictEqual(items.filter((i) => i.picked).map((i) => i.device.id), [physicalAndroidMobile.id]);
+		assert.deepStrictEqual(devices?.map((d) => d.id).sort(), [emulatedAndroidMobile.id, physicalAndroidMobile.id].sort());
+	});
+
+	describe("with a persisted selection", () => {
+		let context: Pick<Context, "lastSelectedFlutterDevice">;
+		let dmWithContext: FlutterDeviceManager;
+
+		beforeEach(() => {
+			context = { lastSelectedFlutterDevice: { deviceId: physicalAndroidMobile.id } };
+			dmWithContext = new FlutterDeviceManager(
+				logger,
+				daemon,
+				{ flutterCustomEmulators: customEmulators, flutterDevicePresets: devicePresets, flutterSelectDeviceWhenConnected: true, flutterShowEmulators: "local" },
+				context,
+			);
+		});
+
+		afterEach(() => dmWithContext.dispose());
+
+		it("re-selects the last selected device when it connects", async () => {
+			await daemon.connect(emulatedAndroidMobile, true);
+			assert.deepStrictEqual(dmWithContext.currentDevice, emulatedAndroidMobile);
+
+			await daemon.connect(physicalAndroidMobile, true);
+			assert.deepStrictEqual(dmWithContext.currentDevice, physicalAndroidMobile);
+
+			// Newly connected devices don't replace the persisted device.
+			await daemon.disconnect(emulatedAndroidMobile);
+			await daemon.connect(emulatedAndroidMobile, true);
+			assert.deepStrictEqual(dmWithContext.currentDevice, physicalAndroidMobile);
+		});
+
+		it("selects and persists device presets", async () => {
+			await daemon.connect(physicalAndroidMobile, true);
+			await daemon.connect(emulatedAndroidMobile, true);
+
+			await dmWithContext.selectDevice({ device: { type: "device-preset", preset: stagingPreset }, label: stagingPreset.name });
+
+			assert.deepStrictEqual(dmWithContext.currentDevice, emulatedAndroidMobile);
+			assert.deepStrictEqual(dmWithContext.activePreset, stagingPreset);
+			assert.deepStrictEqual(context.lastSelectedFlutterDevice, { deviceId: undefined, emulatorId: androidEmulator.id, presetName: stagingPreset.name });
+
+			// Selecting a device directly clears the preset.
+			await dmWithContext.selectDevice({ device: physicalAndroidMobile, label: physicalAndroidMobile.name });
+			assert.equal(dmWithContext.activePreset, undefined);
+			assert.deepStrictEqual(context.lastSelectedFlutterDevice, { deviceId: physicalAndroidMobile.id, emulatorId: undefined });
+		});
+
+		it("only applies a preset once its device is selected", async () => {
+			const emulatorPreset: DevicePreset = { deviceId: emulatedAndroidMobile.id, flavor: "staging", name: "Staging Emulator" };
+			await daemon.connect(physicalAndroidMobile, true);
+			const showInformationMessage = sb.stub(window, "showInformationMessage").resolves();
+
+			await dmWithContext.selectDevice({ device: { type: "device-preset", preset: emulatorPreset }, label: emulatorPreset.name });
+			assert.equal(showInformationMessage.calledOnce, true);
+			assert.deepStrictEqual(dmWithContext.currentDevice, physicalAndroidMobile);
+			assert.equal(dmWithContext.activePreset, undefined);
+
+			await daemon.connect(emulatedAndroidMobile, true);
+			assert.deepStrictEqual(dmWithContext.currentDevice, emulatedAndroidMobile);
+			assert.deepStrictEqual(dmWithContext.activePreset, emulatorPreset);
+		});
+	});
 });
 
 class FakeFlutterDaemon extends FakeProcessStdIOService<unknown> implements IFlutterDaemon {
@@ -370,3 +446,11 @@ const customEmulator2: CustomEmulatorDefinition = {
 };
 
 const customEmulators = [customEmulator1, customEmulator2];
+
+const stagingPreset: DevicePreset = {
+	dartDefines: { API_URL: "https://staging.example.com" },
+	emulatorId: "my_emulator_id",
+	flavor: "staging",
+	name: "Staging Pixel",
+};
+const devicePresets: DevicePreset[] = [stagingPreset];
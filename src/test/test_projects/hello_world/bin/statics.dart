@@ -0,0 +1,28 @@
+import "dart:typed_data";
+
+var topLevelString = "Hello!";
+final topLevelList = [1, 2, 3];
+
+class Counter {
+  static int instances = 0;
+  int value = 0;
+
+  Counter() {
+    instances++;
+  }
+
+  void increment() {
+    value++; // BREAKPOINT1
+  }
+}
+
+main() {
+  print(topLevelString);
+  print(topLevelList);
+  Counter().increment();
+  final bytes = Uint8List.fromList([1, 2, 3, 255]);
+  print(bytes);
+  for (var i = 1; i <= 10; i++) {
+    print("Loop $i"); // BREAKPOINT2
+  }
+}